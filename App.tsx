@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
 import {
   View,
   Text,
@@ -8,82 +8,555 @@ import {
   TouchableOpacity,
   Alert,
   Animated,
+  SectionList,
+  AppState,
+  Platform,
 } from "react-native";
 import { Audio } from "expo-av";
-import type { AVPlaybackStatus } from "expo-av";
 import * as FileSystem from "expo-file-system";
 import * as Sharing from "expo-sharing";
 import * as DocumentPicker from "expo-document-picker";
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { Ionicons } from "@expo/vector-icons";
+import NetInfo from "@react-native-community/netinfo";
 import RecorderModal from "./src/components/RecorderModal";
 import NoteItem from "./src/components/NoteItem";
 import FeedbackModal from "./src/components/FeedbackModal";
+import RestoreModal from "./src/components/RestoreModal";
+import FilterBar from "./src/components/FilterBar";
+import MiniPlayer from "./src/components/MiniPlayer";
+import CalendarView from "./src/components/CalendarView";
+import LockScreen from "./src/components/LockScreen";
+import PasscodeModal from "./src/components/PasscodeModal";
+import TrashModal from "./src/components/TrashModal";
+import UndoToast from "./src/components/UndoToast";
+import SettingsModal from "./src/components/SettingsModal";
+import ExportModal from "./src/components/ExportModal";
+import TextEntryModal from "./src/components/TextEntryModal";
+import type { PasscodeMode } from "./src/components/PasscodeModal";
 import uuid from "react-native-uuid";
-import type { Note } from "./src/types";
+import type { Bookmark, Note, RecordingFormat } from "./src/types";
+import { computePeaksForUri } from "./src/lib/waveform";
+import {
+  clearPlaybackCache,
+  ensureReversedFile,
+  playableUri,
+  resealFile,
+  reversedUriFor,
+} from "./src/lib/audioFile";
+import { createArchive, fileName, serializeArchive } from "./src/lib/archive";
+import { commitRestore, planRestore, prepareRestore } from "./src/lib/restore";
+import type { RestoreSession } from "./src/lib/restore";
+import type { MergePolicy } from "./src/lib/merge";
+import * as notesRepository from "./src/lib/notesRepository";
+import {
+  collectNotebooks,
+  collectTags,
+  matchesFilter,
+  normalizeTags,
+  pruneFilter,
+} from "./src/lib/tags";
+import type { NoteFilter } from "./src/lib/tags";
+import { formatDay, noteText, parseQuery } from "./src/lib/query";
+import { createJobQueue } from "./src/lib/jobQueue";
+import { createTextEntry, isTextEntry } from "./src/lib/entries";
+import { plainText } from "./src/lib/richText";
+import { createFakeTranscriptionEngine, transcribeNote } from "./src/lib/transcription";
+import { splitNote, trimNote } from "./src/lib/editing";
+import { loadPositions, savePositions } from "./src/lib/playbackPositions";
+import { createPlaybackController } from "./src/lib/playbackController";
+import type { PlayOptions } from "./src/lib/playbackController";
+import { currentStreak, groupByDay, summarizeDays } from "./src/lib/calendar";
+import * as vault from "./src/lib/vault";
+import { changePasscode, disablePasscode, enablePasscode, finishPending } from "./src/lib/passcode";
+import {
+  loadRetentionDays,
+  DEFAULT_RETENTION_DAYS,
+  loadTrash,
+  moveToTrash,
+  purge,
+  purgeExpired,
+  restoreFromTrash,
+  saveRetentionDays,
+  saveTrash,
+} from "./src/lib/trash";
+import type { TrashedNote } from "./src/lib/trash";
+import {
+  DEFAULT_RECORDING_SETTINGS,
+  loadRecordingSettings,
+  saveRecordingSettings,
+} from "./src/lib/recordingSettings";
+import type { RecordingSettings } from "./src/lib/recordingSettings";
+import { adoptOrphan, scanStorage } from "./src/lib/integrity";
+import {
+  lastSyncAt as loadLastSyncAt,
+  loadSyncConfig,
+  recordChanges,
+  saveSyncConfig,
+  syncJournal,
+} from "./src/lib/sync";
+import { createDavClient } from "./src/lib/webdav";
+import type { DavConfig } from "./src/lib/webdav";
+import {
+  deliverDue,
+  loadFeedbackEndpoint,
+  loadOutbox,
+  nextRetryAt,
+  saveFeedbackEndpoint,
+} from "./src/lib/feedbackOutbox";
+import type { IntegrityIssue, RepairAction } from "./src/lib/integrity";
+import { logError, logInfo } from "./src/lib/diagnostics";
+import type { DeviceInfo } from "./src/lib/diagnostics";
+import { DEFAULT_REMINDER_SETTINGS } from "./src/lib/reminderSchedule";
+import type { ReminderSettings } from "./src/lib/reminderSchedule";
+import {
+  hasActiveReminders,
+  loadReminderSettings,
+  onReminderOpened,
+  requestReminderPermission,
+  rescheduleReminders,
+  saveReminderSettings,
+} from "./src/lib/reminders";
 
 const VOICE_DIR = FileSystem.documentDirectory + "voiceNotes/";
-const STORAGE_KEY = "voice_notes_final_v1";
-const FEEDBACK_KEY = "voice_feedback_v1";
-
-type PlayOptions = {
-  reverse?: boolean;
-  requestedRate?: number;
+const TRASH_DIR = FileSystem.documentDirectory + "voiceTrash/";
+// folders whose files are encrypted while a passcode is set
+const SEALED_DIRS = [VOICE_DIR, TRASH_DIR];
+// playback speeds offered in the speed menu
+const PLAYBACK_SPEEDS = [0.5, 0.75, 1.0, 1.25, 1.5, 1.75, 2.0, 2.5, 3.0];
+const SKIP_MS = 15000;
+// how long the app may stay in the background before the passcode is asked again
+const LOCK_GRACE_MS = 30 * 1000;
+// sent along with diagnostics; Android reports the model, iOS only phone or tablet
+const DEVICE: DeviceInfo = {
+  os: Platform.OS,
+  osVersion: Platform.Version,
+  model:
+    Platform.OS === "android"
+      ? Platform.constants.Model
+      : Platform.OS === "ios"
+      ? Platform.constants.interfaceIdiom
+      : undefined,
 };
 
+// swap for a real speech engine; the fake one works offline and is deterministic
+const transcriptionEngine = createFakeTranscriptionEngine();
+const backgroundJobs = createJobQueue((key, e) => logError(`background job err (${key})`, e));
+
+// Note: negative playback rate (true reverse) is not supported by expo-av.
+// A reversed copy is generated next to the original on first use (WAV only) and cached.
+async function resolvePlaybackUri(note: Note, reverse: boolean) {
+  const rev = reverse ? await reversedSourceUri(note) : null;
+  const uri = rev || note.uri;
+  // sealed files are decrypted to a temp copy for the player, forward and reversed alike
+  return { uri: await playableUri(uri, fileName(uri)), reversed: rev !== null };
+}
+
+// the reversed copy of a note, or null (after telling the user) to play it forward
+async function reversedSourceUri(note: Note) {
+  const rev = reversedUriFor(note.uri);
+  if (!rev) return null;
+  // use the cached copy, or generate it from the samples
+  const ready = await ensureReversedFile(note.uri, rev).catch((e) => {
+    logError("reverse err", e);
+    return false;
+  });
+  if (ready) return rev;
+  Alert.alert(
+    "Reverse not available",
+    "Reversed playback can only be generated for WAV recordings. For other formats, place a reversed file next to the original with a `_rev` suffix."
+  );
+  return null;
+}
+
+// duration from the player, for formats the WAV parser can't read
+async function probeDuration(uri: string) {
+  const playable = await playableUri(uri, fileName(uri));
+  const { sound, status } = await Audio.Sound.createAsync({ uri: playable });
+  await sound.unloadAsync();
+  return status.isLoaded && status.durationMillis ? status.durationMillis : null;
+}
+
+// Single global sound instance so playback does not overlap
+const playback = createPlaybackController({
+  createSound: async (uri, initialStatus) =>
+    (await Audio.Sound.createAsync({ uri }, initialStatus)).sound,
+  resolveUri: resolvePlaybackUri,
+  loadPositions,
+  savePositions,
+  onError: (message, e) => logError(message, e),
+});
+
 export default function App() {
   const [notes, setNotes] = useState<Note[]>([]);
   const [search, setSearch] = useState("");
+  const [noteFilter, setNoteFilter] = useState<NoteFilter>({ tags: [], notebook: null });
+  // day picked on the calendar (YYYY-MM-DD), narrows the list on top of search and filters
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [calendarVisible, setCalendarVisible] = useState(false);
+  // flat list, or sections per day with sticky headers
+  const [timeline, setTimeline] = useState(false);
   const [recVisible, setRecVisible] = useState(false);
   const [feedbackVisible, setFeedbackVisible] = useState(false);
+  const [settingsVisible, setSettingsVisible] = useState(false);
+  const [exportVisible, setExportVisible] = useState(false);
+  const [textEntryVisible, setTextEntryVisible] = useState(false);
+  const [syncConfig, setSyncConfig] = useState<DavConfig | null>(null);
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [feedbackEndpoint, setFeedbackEndpoint] = useState<string | null>(null);
+  // next scheduled retry of the feedback outbox
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // backup being restored, while the merge preview is shown
+  const [restoreSession, setRestoreSession] = useState<RestoreSession | null>(null);
   const scaleAnim = useRef(new Animated.Value(1)).current;
+  // "checking" until the lock config is read; notes are only loaded once "open"
+  const [lockState, setLockState] = useState<"checking" | "locked" | "open">("checking");
+  const [passcodeMode, setPasscodeMode] = useState<PasscodeMode | null>(null);
+  // content of a backup waiting for its passcode
+  const pendingBackup = useRef<string | null>(null);
+  const backgroundSince = useRef<number | null>(null);
+  // deleted notes, waiting to be restored or purged
+  const [trash, setTrash] = useState<TrashedNote[]>([]);
+  const trashRef = useRef<TrashedNote[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [trashVisible, setTrashVisible] = useState(false);
+  const [recordingSettings, setRecordingSettings] = useState(DEFAULT_RECORDING_SETTINGS);
+  // last deleted note, offered for undo
+  const [lastDeleted, setLastDeleted] = useState<TrashedNote | null>(null);
+  const [reminderSettings, setReminderSettings] = useState(DEFAULT_REMINDER_SETTINGS);
+  const reminderRef = useRef<ReminderSettings | null>(null);
+  const [nextReminderAt, setNextReminderAt] = useState<number | null>(null);
+  // a reminder was tapped; the recorder opens once the journal is unlocked
+  const [reminderTapped, setReminderTapped] = useState(false);
 
-  // Single global sound instance so playback does not overlap
-  const soundRef = useRef<Audio.Sound | null>(null);
-  // keep track of currently playing note id
-  const [playingId, setPlayingId] = useState<string | null>(null);
-  // playback progress state (0..1)
-  const [progress, setProgress] = useState(0);
-  // playback rate
-  const [rate, setRate] = useState(1.0);
+  // loaded note, position, rate and queue, owned by the playback controller
+  const player = useSyncExternalStore(playback.subscribe, playback.getState);
+  const playingId = player.playing ? player.activeId : null;
+  const progress = player.durationMs > 0 ? Math.min(1, player.positionMs / player.durationMs) : 0;
+  // latest saved list, for background work that finishes after `notes` was captured
+  const notesRef = useRef<Note[]>([]);
+  // ids we already tried to compute peaks for in this session
+  const peaksTried = useRef(new Set<string>());
 
   useEffect(() => {
     (async () => {
+      logInfo("app start");
       await FileSystem.makeDirectoryAsync(VOICE_DIR, { intermediates: true }).catch(() => {});
-      const saved = await AsyncStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        setNotes(JSON.parse(saved) as Note[]);
+      loadRecordingSettings()
+        .then(setRecordingSettings)
+        .catch((e) => logError("load recording settings err", e));
+      loadFeedbackEndpoint()
+        .then(setFeedbackEndpoint)
+        .catch((e) => logError("load feedback endpoint err", e));
+      loadReminderSettings()
+        .then((loaded) => {
+          reminderRef.current = loaded;
+          setReminderSettings(loaded);
+        })
+        .catch((e) => logError("load reminders err", e));
+      deliverFeedback();
+      const config = await vault.loadLockConfig().catch((e) => {
+        logError("load lock error", e);
+        return null;
+      });
+      if (config) {
+        setLockState("locked");
       } else {
-        setNotes([]);
+        await loadJournal();
+        setLockState("open");
       }
     })();
     // cleanup on unmount
     return () => {
-      if (soundRef.current) {
-        soundRef.current.unloadAsync().catch(() => {});
-        soundRef.current = null;
-      }
+      playback.stop().catch(() => {});
+      if (feedbackTimer.current) clearTimeout(feedbackTimer.current);
     };
   }, []);
 
+  // ask for the passcode again when coming back after a while in the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (next) => {
+      if (next === "background") {
+        backgroundSince.current = Date.now();
+      } else if (next === "active" && backgroundSince.current !== null) {
+        const away = Date.now() - backgroundSince.current;
+        backgroundSince.current = null;
+        if (vault.lockConfig() && away >= LOCK_GRACE_MS) lockJournal();
+      }
+      // a good moment to send feedback whose retry came due in the background
+      if (next === "active") {
+        deliverFeedback();
+        // the day may have changed, and the scheduled days run out
+        refreshReminders();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => onReminderOpened(() => setReminderTapped(true)), []);
+
+  // retry feedback that failed while offline as soon as the connection is back
+  useEffect(() => {
+    let online: boolean | null = null;
+    return NetInfo.addEventListener((state) => {
+      const reachable = state.isConnected === true && state.isInternetReachable !== false;
+      if (online === false && reachable) deliverFeedback(true);
+      online = reachable;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!reminderTapped || lockState !== "open") return;
+    setReminderTapped(false);
+    // the recorder can't open on top of another modal
+    setSettingsVisible(false);
+    setFeedbackVisible(false);
+    setExportVisible(false);
+    setTrashVisible(false);
+    setRecVisible(true);
+  }, [reminderTapped, lockState]);
+
+  // a retag or delete can leave the filter on a tag or notebook that no note has
+  useEffect(() => {
+    setNoteFilter((f) => pruneFilter(f, notes));
+  }, [notes]);
+
+  // days from today on that have a note; reminders only change when this does
+  const recordedDays = useMemo(() => {
+    const today = formatDay(Date.now());
+    const days = new Set(notes.map((n) => formatDay(n.createdAt)).filter((d) => d >= today));
+    return [...days].sort().join(",");
+  }, [notes]);
+
+  useEffect(() => {
+    refreshReminders();
+  }, [reminderSettings, recordedDays]);
+
+  // Schedules the reminders due from now on, in place of the ones scheduled before.
+  async function refreshReminders() {
+    const settings = reminderRef.current;
+    if (!settings) return;
+    try {
+      const due = await rescheduleReminders(settings, notesRef.current);
+      setNextReminderAt(due.length > 0 ? due[0].at : null);
+    } catch (e) {
+      logError("schedule reminders err", e);
+    }
+  }
+
+  async function changeReminderSettings(next: ReminderSettings) {
+    const turnedOn = hasActiveReminders(next) && !hasActiveReminders(reminderSettings);
+    reminderRef.current = next;
+    setReminderSettings(next);
+    saveReminderSettings(next).catch((e) => logError("save reminders err", e));
+    if (!turnedOn) return;
+    // scheduling above ran before the answer; run it again once allowed
+    if (await requestReminderPermission().catch(() => false)) {
+      refreshReminders();
+    } else {
+      Alert.alert(
+        "Notifications are off",
+        "Allow notifications for this app in the system settings to get reminders."
+      );
+    }
+  }
+
+  // Sends pending feedback and schedules the next retry, if any. `ignoreBackoff` also sends
+  // entries still waiting for their retry, once the device is back online.
+  async function deliverFeedback(ignoreBackoff = false) {
+    if (feedbackTimer.current) clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = null;
+    try {
+      const endpoint = await loadFeedbackEndpoint();
+      if (!endpoint) return;
+      const report = await deliverDue(endpoint, Platform.OS, { ignoreBackoff });
+      if (report.sent > 0 || report.failed > 0) logInfo("feedback delivered", report);
+      const at = nextRetryAt(await loadOutbox());
+      if (at !== null) {
+        const delay = Math.max(0, at - Date.now()) + 1000;
+        feedbackTimer.current = setTimeout(() => deliverFeedback(), delay);
+      }
+    } catch (e) {
+      logError("deliver feedback err", e);
+    }
+  }
+
+  async function changeFeedbackEndpoint(endpoint: string | null) {
+    try {
+      await saveFeedbackEndpoint(endpoint);
+      setFeedbackEndpoint(endpoint);
+      deliverFeedback();
+    } catch (e) {
+      logError("save feedback endpoint err", e);
+    }
+  }
+
+  async function loadJournal() {
+    try {
+      notesRef.current = await notesRepository.loadNotes();
+    } catch (e) {
+      logError("load notes error", e);
+      notesRef.current = [];
+    }
+    setNotes(notesRef.current);
+    await playback.restorePositions().catch((e) => logError("load positions error", e));
+    // purge trashed notes past the retention period
+    try {
+      const days = await loadRetentionDays();
+      setRetentionDays(days);
+      trashRef.current = await purgeExpired(await loadTrash(), days);
+    } catch (e) {
+      logError("load trash error", e);
+      trashRef.current = [];
+    }
+    setTrash(trashRef.current);
+    try {
+      setSyncConfig(await loadSyncConfig());
+      setLastSyncAt(await loadLastSyncAt());
+    } catch (e) {
+      logError("load sync config error", e);
+    }
+  }
+
+  async function unlockJournal(passcode: string) {
+    if (!vault.unlock(passcode)) return false;
+    // an interrupted passcode change is finished before anything else reads the data
+    await finishPending(SEALED_DIRS).catch((e) => logError("finish passcode change err", e));
+    await loadJournal();
+    setLockState("open");
+    return true;
+  }
+
+  function lockJournal() {
+    playback.stop().catch(() => {});
+    vault.lock();
+    clearPlaybackCache().catch(() => {});
+    notesRef.current = [];
+    setNotes([]);
+    trashRef.current = [];
+    setTrash([]);
+    setLastDeleted(null);
+    setRestoreSession(null);
+    setLockState("locked");
+  }
+
+  function openLockSettings() {
+    if (!vault.lockConfig()) {
+      setPasscodeMode("set");
+      return;
+    }
+    Alert.alert("Passcode", "Notes and audio are encrypted with your passcode.", [
+      { text: "Lock now", onPress: lockJournal },
+      { text: "Change passcode", onPress: () => setPasscodeMode("change") },
+      { text: "Turn off", style: "destructive", onPress: () => setPasscodeMode("remove") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  }
+
+  function scanIntegrity(onProgress: (done: number, total: number) => void) {
+    return scanStorage(notesRef.current, VOICE_DIR, { probeDuration, onProgress });
+  }
+
+  async function repairIssue(issue: IntegrityIssue, action: RepairAction, target?: string) {
+    const notesNow = notesRef.current;
+    if (issue.kind === "missingAudio" && action === "relink" && target) {
+      await saveNotes(notesNow.map((n) => (n.id === issue.note.id ? { ...n, uri: target } : n)));
+    } else if (issue.kind === "missingAudio" && action === "delete") {
+      await deleteNote(issue.note.id);
+    } else if (issue.kind === "orphanFile" && action === "adopt") {
+      const note = await adoptOrphan(issue.uri, String(uuid.v4()), probeDuration);
+      await saveNotes([note, ...notesNow]);
+    } else if (
+      (issue.kind === "orphanFile" || issue.kind === "staleReversed") &&
+      action === "delete"
+    ) {
+      await FileSystem.deleteAsync(issue.uri, { idempotent: true });
+    } else if (issue.kind === "badDuration" && action === "recompute" && issue.actualMs !== null) {
+      const duration = issue.actualMs;
+      await saveNotes(notesNow.map((n) => (n.id === issue.note.id ? { ...n, duration } : n)));
+    }
+  }
+
+  async function submitPasscode(current: string, next: string) {
+    if (passcodeMode === "backup") {
+      if (pendingBackup.current === null) return;
+      setRestoreSession(await prepareRestore(pendingBackup.current, notes, VOICE_DIR, current));
+      pendingBackup.current = null;
+      return;
+    }
+    // every file is rewritten, so nothing may be playing from them
+    await playback.stop();
+    if (passcodeMode === "set") await enablePasscode(next, SEALED_DIRS);
+    else if (passcodeMode === "change") await changePasscode(current, next, SEALED_DIRS);
+    else if (passcodeMode === "remove") await disablePasscode(current, SEALED_DIRS);
+    await clearPlaybackCache();
+  }
+
+  // transcribe notes that don't have a transcript yet (new recordings and older notes)
+  useEffect(() => {
+    notes.filter((n) => !n.transcript && !isTextEntry(n)).forEach((n) => enqueueTranscription(n));
+  }, [notes]);
+
+  function enqueueTranscription(note: Note) {
+    backgroundJobs.enqueue("transcribe:" + note.id, async () => {
+      const current = notesRef.current.find((x) => x.id === note.id);
+      if (!current || current.transcript) return;
+      const transcript = await transcribeNote(transcriptionEngine, current.uri, current.duration);
+      const latest = notesRef.current.find((x) => x.id === note.id);
+      if (!latest) return;
+      if (latest.uri !== current.uri || latest.duration !== current.duration) {
+        // trimmed or split while transcribing: start over once this job has left the queue
+        setTimeout(() => enqueueTranscription(latest), 0);
+        return;
+      }
+      await saveNotes(notesRef.current.map((x) => (x.id === note.id ? { ...x, transcript } : x)));
+    });
+  }
+
+  // compute waveform peaks in the background for notes saved before peaks existed
+  useEffect(() => {
+    const pending = notes.filter(
+      (n) => !n.peaks && !isTextEntry(n) && !peaksTried.current.has(n.id)
+    );
+    if (pending.length === 0) return;
+    pending.forEach((n) => peaksTried.current.add(n.id));
+    (async () => {
+      for (const n of pending) {
+        const peaks = await computePeaksForUri(n.uri).catch(() => null);
+        if (!peaks) continue;
+        await saveNotes(notesRef.current.map((x) => (x.id === n.id ? { ...x, peaks } : x)));
+      }
+    })();
+  }, [notes]);
+
   async function saveNotes(list: Note[]) {
     const sorted = [...list].sort((a, b) => b.createdAt - a.createdAt);
+    notesRef.current = sorted;
     setNotes(sorted);
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(sorted));
+    await notesRepository.saveNotes(sorted);
+    // not awaited: a running sync holds the change log until it is done
+    if (syncConfig) recordChanges(sorted).catch((e) => logError("record changes err", e));
   }
 
+  // structured search query (see lib/query); re-parsed only when the text changes
+  const query = useMemo(() => parseQuery(search), [search]);
+
   function filtered() {
-    if (!search) return notes;
+    const scoped = notes.filter((n) => matchesFilter(n, noteFilter));
+    if (!search.trim()) return scoped;
+    if (query.ok) return scoped.filter(query.match);
+    // malformed query: fall back to a plain substring match while the hint is shown
     const s = search.toLowerCase();
-    return notes.filter(
-      (n) =>
-        (n.title || "").toLowerCase().includes(s) ||
-        new Date(n.createdAt).toLocaleString().toLowerCase().includes(s)
-    );
+    return scoped.filter((n) => noteText(n).toLowerCase().includes(s));
   }
 
   // Add note from recorder (uri points to temp file). App moves file into voiceNotes dir.
-  async function addNoteFromRecording(tempUri: string, duration: number, title?: string) {
+  async function addNoteFromRecording(
+    tempUri: string,
+    duration: number,
+    title?: string,
+    format?: RecordingFormat
+  ) {
     try {
       const id = String(uuid.v4());
       const ext = tempUri.split(".").pop() || "m4a";
@@ -95,140 +568,293 @@ export default function App() {
         await FileSystem.copyAsync({ from: tempUri, to: dest });
         await FileSystem.deleteAsync(tempUri, { idempotent: true });
       }
+      // encrypt the new recording if a passcode is set
+      await resealFile(dest);
+
+      const peaks = await computePeaksForUri(dest).catch(() => null);
+      peaksTried.current.add(id);
 
       const note: Note = {
         id,
+        kind: "audio",
         title: title && title.trim() ? title.trim() : "Untitled Recording",
         uri: dest,
         createdAt: Date.now(),
         duration: duration || 0,
-        // optionally you can add waveform data later
+        ...(peaks ? { peaks } : {}),
+        ...(format ? { format } : {}),
       };
 
       await saveNotes([note, ...notes]);
+      enqueueTranscription(note);
     } catch (e) {
-      console.log("add note error", e);
+      logError("add note error", e);
       Alert.alert("Error", "Could not save the recording.");
     }
   }
 
+  async function addTextEntry(title: string, body: string) {
+    // untitled entries are named after their first line
+    const firstLine = plainText(body).split("\n")[0].slice(0, 60).trim();
+    const entry = createTextEntry(
+      String(uuid.v4()),
+      title || firstLine || "Untitled entry",
+      body,
+      Date.now()
+    );
+    try {
+      await saveNotes([entry, ...notesRef.current]);
+    } catch (e) {
+      logError("add text entry err", e);
+      Alert.alert("Error", "Could not save the entry.");
+    }
+  }
+
+  // the title and text of a text entry, or the written note of a recording
+  async function saveNoteText(id: string, title: string, body: string) {
+    const updated = notesRef.current.map((n) => {
+      if (n.id !== id) return n;
+      const { body: _body, ...rest } = n;
+      return { ...rest, title: title || n.title, ...(body ? { body } : {}) };
+    });
+    await saveNotes(updated);
+  }
+
   async function renameNote(id: string, newTitle: string) {
     const updated = notes.map((n) => (n.id === id ? { ...n, title: newTitle } : n));
     await saveNotes(updated);
   }
 
-  async function deleteNote(id: string) {
+  async function organizeNote(id: string, tags: string[], notebook?: string) {
+    const updated = notes.map((n) => {
+      if (n.id !== id) return n;
+      const { tags: _tags, notebook: _notebook, ...rest } = n;
+      const next: Note = { ...rest };
+      const clean = normalizeTags(tags);
+      if (clean.length > 0) next.tags = clean;
+      if (notebook && notebook.trim()) next.notebook = notebook.trim();
+      return next;
+    });
+    await saveNotes(updated);
+  }
+
+  async function addBookmark(id: string, positionMs: number, label?: string) {
+    const bookmark: Bookmark = {
+      id: String(uuid.v4()),
+      positionMs: Math.round(positionMs),
+      createdAt: Date.now(),
+    };
+    if (label) bookmark.label = label;
+    const updated = notes.map((n) =>
+      n.id === id
+        ? {
+            ...n,
+            bookmarks: [...(n.bookmarks || []), bookmark].sort(
+              (a, b) => a.positionMs - b.positionMs
+            ),
+          }
+        : n
+    );
+    await saveNotes(updated);
+  }
+
+  async function removeBookmark(id: string, bookmarkId: string) {
+    const updated = notes.map((n) =>
+      n.id === id ? { ...n, bookmarks: (n.bookmarks || []).filter((b) => b.id !== bookmarkId) } : n
+    );
+    await saveNotes(updated);
+  }
+
+  async function trimNoteAudio(id: string, inMs: number, outMs: number) {
+    const note = notes.find((n) => n.id === id);
+    if (!note) return;
+    try {
+      await playback.release(id);
+      const trimmed = await trimNote(note, inMs, outMs);
+      await saveNotes(notes.map((n) => (n.id === id ? trimmed : n)));
+      enqueueTranscription(trimmed);
+    } catch (e) {
+      logError("trim err", e);
+      Alert.alert("Trim failed", e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function splitNoteAudio(id: string, atMs: number, inMs: number, outMs: number) {
     const note = notes.find((n) => n.id === id);
     if (!note) return;
     try {
-      await FileSystem.deleteAsync(note.uri, { idempotent: true });
+      await playback.release(id);
+      const [first, second] = await splitNote(
+        note,
+        atMs,
+        inMs,
+        outMs,
+        String(uuid.v4()),
+        VOICE_DIR
+      );
+      await saveNotes([second, ...notes.map((n) => (n.id === id ? first : n))]);
+      enqueueTranscription(first);
+      enqueueTranscription(second);
     } catch (e) {
-      console.log("file delete error", e);
+      logError("split err", e);
+      Alert.alert("Split failed", e instanceof Error ? e.message : String(e));
     }
-    const filteredList = notes.filter((n) => n.id !== id);
-    await saveNotes(filteredList);
+  }
+
+  async function saveTrashList(list: TrashedNote[]) {
+    trashRef.current = list;
+    setTrash(list);
+    await saveTrash(list);
+  }
+
+  // Deleting moves the note and its audio to the trash; it can be undone from the toast
+  // or restored from the Trash screen until it is purged.
+  async function deleteNote(id: string) {
+    const note = notes.find((n) => n.id === id);
+    if (!note) return;
     // if we were playing it, stop
-    if (playingId === id) {
-      if (soundRef.current) {
-        try {
-          await soundRef.current.stopAsync();
-          await soundRef.current.unloadAsync();
-        } catch {}
-        soundRef.current = null;
-      }
-      setPlayingId(null);
-      setProgress(0);
+    await playback.release(id);
+    try {
+      const item = await moveToTrash(note, TRASH_DIR);
+      await saveTrashList([item, ...trashRef.current]);
+      await saveNotes(notesRef.current.filter((n) => n.id !== id));
+      setLastDeleted(item);
+    } catch (e) {
+      logError("delete error", e);
+      Alert.alert("Delete failed", String(e));
     }
   }
 
-  // Try to find a reversed file for a note:
-  // convention: if note.uri is .../abcd.m4a, reversed file is .../abcd_rev.m4a
-  function reversedUriFor(note: Note) {
-    if (!note.uri) return null;
-    const i = note.uri.lastIndexOf(".");
-    const base = note.uri.slice(0, i);
-    const ext = note.uri.slice(i + 1);
-    return base + "_rev." + ext;
+  async function restoreTrashed(item: TrashedNote) {
+    try {
+      const note = await restoreFromTrash(item);
+      await saveTrashList(trashRef.current.filter((i) => i.note.id !== note.id));
+      await saveNotes([note, ...notesRef.current.filter((n) => n.id !== note.id)]);
+      setLastDeleted((last) => (last && last.note.id === note.id ? null : last));
+    } catch (e) {
+      logError("restore from trash err", e);
+      Alert.alert("Restore failed", String(e));
+    }
   }
 
-  // Play/pause with playback speed and support for playing reversed file if requested.
-  // Note: negative playback rate (true reverse) is not supported by expo-av.
-  // This function will attempt to play a pre-created reversed file if reverse=true and that file exists.
-  async function playPause(note: Note, { reverse = false, requestedRate = 1.0 }: PlayOptions = {}) {
+  async function emptyTrash() {
     try {
-      // If another note is playing, stop it first
-      if (soundRef.current) {
-        const status = await soundRef.current.getStatusAsync();
-        if (status.isLoaded) {
-          await soundRef.current.stopAsync();
-          await soundRef.current.unloadAsync();
-        }
-        soundRef.current = null;
-        setPlayingId(null);
-        setProgress(0);
-      }
+      await purge(trashRef.current);
+      await saveTrashList([]);
+      setLastDeleted(null);
+    } catch (e) {
+      logError("empty trash err", e);
+    }
+  }
 
-      // determine uri to play
-      let uriToPlay = note.uri;
-      if (reverse) {
-        const rev = reversedUriFor(note);
-        if (rev) {
-          // check existence
-          const info = await FileSystem.getInfoAsync(rev);
-          if (info.exists) {
-            uriToPlay = rev;
-          } else {
-            Alert.alert(
-              "Reversed file not found",
-              "To play audio backward, a reversed audio file must exist. You can generate it offline and place it next to the original with a `_rev` suffix."
-            );
-            // fallback to normal
-            uriToPlay = note.uri;
-          }
-        }
-      }
+  function changeRetention(days: number) {
+    setRetentionDays(days);
+    saveRetentionDays(days).catch((e) => logError("save retention err", e));
+  }
 
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: uriToPlay },
-        { shouldPlay: true, rate: requestedRate, shouldCorrectPitch: true }
-      );
-      soundRef.current = sound;
-      setPlayingId(note.id);
-      setRate(requestedRate);
+  async function changeSyncConfig(config: DavConfig | null) {
+    try {
+      await saveSyncConfig(config);
+      setSyncConfig(config);
+      if (!config) setLastSyncAt(null);
+    } catch (e) {
+      logError("save sync config err", e);
+      Alert.alert("Sync", String(e));
+    }
+  }
 
-      sound.setOnPlaybackStatusUpdate((status: AVPlaybackStatus) => {
-        if (!status.isLoaded) {
-          return;
-        }
-        // update progress
-        if (status.durationMillis && status.positionMillis != null) {
-          setProgress(status.positionMillis / status.durationMillis);
-        }
-        if (status.didJustFinish) {
-          // finished, cleanup
-          soundRef.current && soundRef.current.unloadAsync().catch(() => {});
-          soundRef.current = null;
-          setPlayingId(null);
-          setProgress(0);
-        }
+  async function runSync() {
+    if (!syncConfig || syncing) return;
+    setSyncing(true);
+    try {
+      const result = await syncJournal(notesRef.current, {
+        dav: createDavClient(syncConfig),
+        voiceDir: VOICE_DIR,
+        apply: async (upserts, removals) => {
+          // notes deleted on another device can still be restored from the trash here
+          const trashed: TrashedNote[] = [];
+          for (const note of removals) {
+            await playback.release(note.id);
+            trashed.push(await moveToTrash(note, TRASH_DIR));
+          }
+          const replaced = new Set([...upserts, ...removals].map((n) => n.id));
+          // a note deleted here but edited elsewhere comes back; drop its trash copy
+          const revived = trashRef.current.filter((i) => replaced.has(i.note.id));
+          await purge(revived);
+          if (trashed.length > 0 || revived.length > 0) {
+            await saveTrashList([
+              ...trashed,
+              ...trashRef.current.filter((i) => !replaced.has(i.note.id)),
+            ]);
+          }
+          await saveNotes([...upserts, ...notesRef.current.filter((n) => !replaced.has(n.id))]);
+        },
       });
+      setLastSyncAt(await loadLastSyncAt());
+      logInfo("sync done", result);
+      const parts = [
+        `${result.pushed} sent`,
+        `${result.pulled} received`,
+        ...(result.deleted > 0 ? [`${result.deleted} moved to trash`] : []),
+        ...(result.conflicts > 0 ? [`${result.conflicts} conflicts (newer edit kept)`] : []),
+        ...(result.skipped > 0 ? [`${result.skipped} skipped, audio missing or damaged`] : []),
+      ];
+      Alert.alert("Sync done", parts.join(", ") + ".");
+    } catch (e) {
+      logError("sync err", e);
+      Alert.alert("Sync failed", String(e));
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  function changeRecordingSettings(next: RecordingSettings) {
+    setRecordingSettings(next);
+    saveRecordingSettings(next).catch((e) => logError("save recording settings err", e));
+  }
+
+  // Play/pause with playback speed and support for playing reversed file if requested.
+  // A paused note resumes where it was; otherwise playback starts at its saved position.
+  async function playPause(note: Note, options: PlayOptions = {}) {
+    try {
+      await playback.play(note, options);
     } catch (e) {
-      console.log("playPause err", e);
+      logError("playPause err", e);
       Alert.alert("Playback error", "Could not play the note.");
     }
   }
 
+  // runs a playback command that has no user-facing failure mode
+  function control(label: string, command: () => Promise<void>) {
+    command().catch((e) => logError(label, e));
+  }
+
   async function setPlaybackSpeed(newRate: number) {
-    setRate(newRate);
-    if (soundRef.current) {
-      try {
-        await soundRef.current.setRateAsync(newRate, true);
-      } catch (e) {
-        console.log("setRate err", e);
-      }
+    try {
+      await playback.setRate(newRate);
+    } catch (e) {
+      logError("setRate err", e);
     }
   }
 
+  // continuous playback, oldest first, as a journal is read
+  function playAll(list: Note[]) {
+    const ordered = list.filter((n) => !isTextEntry(n)).sort((a, b) => a.createdAt - b.createdAt);
+    control("queue err", () => playback.playQueue(ordered));
+  }
+
+  function playDay(note: Note) {
+    const day = formatDay(note.createdAt);
+    const sameDay = notes.filter((n) => formatDay(n.createdAt) === day && !isTextEntry(n));
+    const ordered = [...sameDay].sort((a, b) => a.createdAt - b.createdAt);
+    control("queue err", () =>
+      playback.playQueue(
+        ordered,
+        ordered.findIndex((n) => n.id === note.id)
+      )
+    );
+  }
+
   function animateFab() {
     Animated.sequence([
       Animated.timing(scaleAnim, { toValue: 1.08, duration: 160, useNativeDriver: true }),
@@ -239,12 +865,12 @@ export default function App() {
   // backup / restore
   async function backup() {
     try {
-      const json = JSON.stringify(notes);
+      const json = serializeArchive(await createArchive(notes, VOICE_DIR));
       const path = FileSystem.documentDirectory + `voice_backup_${Date.now()}.json`;
       await FileSystem.writeAsStringAsync(path, json, { encoding: FileSystem.EncodingType.UTF8 });
       await Sharing.shareAsync(path);
     } catch (e) {
-      console.log("backup error", e);
+      logError("backup error", e);
       Alert.alert("Backup failed", String(e));
     }
   }
@@ -259,16 +885,108 @@ export default function App() {
       const content = await FileSystem.readAsStringAsync(uri, {
         encoding: FileSystem.EncodingType.UTF8,
       });
-      const imported = JSON.parse(content) as Note[];
-      const valid = imported.filter((i) => i.uri && i.uri.includes("voiceNotes/"));
-      await saveNotes([...valid, ...notes]);
-      Alert.alert("Restore", "Imported metadata. Ensure audio files exist in voiceNotes folder.");
+      try {
+        setRestoreSession(await prepareRestore(content, notes, VOICE_DIR));
+      } catch (e) {
+        if (!(e instanceof vault.LockedError)) throw e;
+        // sealed under a passcode whose key is not loaded: ask for it
+        pendingBackup.current = content;
+        setPasscodeMode("backup");
+      }
+    } catch (e) {
+      logError("restore err", e);
+      Alert.alert("Restore failed", String(e));
+    }
+  }
+
+  async function confirmRestore(policy: MergePolicy) {
+    if (!restoreSession) return;
+    try {
+      const plan = planRestore(restoreSession, notes, policy, () => String(uuid.v4()));
+      const report = await commitRestore(restoreSession, plan);
+      await saveNotes(report.notes);
+      const { add, update, skip } = report.plan.counts;
+      const lines = [
+        `Added ${add - report.missing.length}, updated ${update}, skipped ${skip}. Restored ${
+          report.restoredFiles
+        } audio files.`,
+      ];
+      if (report.missing.length > 0) lines.push(`Missing audio: ${report.missing.join(", ")}`);
+      if (report.corrupt.length > 0)
+        lines.push(`Corrupt entries skipped: ${report.corrupt.join(", ")}`);
+      Alert.alert("Restore", lines.join("\n\n"));
     } catch (e) {
-      console.log("restore err", e);
+      logError("restore err", e);
       Alert.alert("Restore failed", String(e));
+    } finally {
+      setRestoreSession(null);
     }
   }
 
+  const allTags = collectTags(notes);
+  const allNotebooks = collectNotebooks(notes);
+
+  const matching = filtered();
+  const visible = selectedDay
+    ? matching.filter((n) => formatDay(n.createdAt) === selectedDay)
+    : matching;
+  const streak = currentStreak(notes);
+
+  const emptyList = (
+    <View style={{ padding: 24 }}>
+      <Text style={{ color: "#8a8f95" }}>
+        No notes yet - tap the mic to record one, or the pen to write one.
+      </Text>
+    </View>
+  );
+
+  if (lockState === "checking") return <View style={styles.container} />;
+  if (lockState === "locked") return <LockScreen onUnlock={unlockJournal} />;
+
+  const renderNote = ({ item }: { item: Note }) => (
+    <NoteItem
+      note={item}
+      playing={playingId === item.id}
+      active={player.activeId === item.id}
+      progress={
+        player.activeId === item.id
+          ? progress
+          : item.duration > 0
+          ? Math.min(1, (player.positions[item.id] || 0) / item.duration)
+          : 0
+      }
+      onPlay={(opts = {}) => playPause(item, opts)}
+      onPause={() => control("pause err", playback.pause)}
+      onRename={(newTitle) => renameNote(item.id, newTitle)}
+      onOrganize={(tags, notebook) => organizeNote(item.id, tags, notebook)}
+      allTags={allTags}
+      allNotebooks={allNotebooks}
+      onDelete={() =>
+        Alert.alert("Delete recording", "Move this voice note to the trash?", [
+          { text: "Cancel", style: "cancel" },
+          { text: "Delete", style: "destructive", onPress: () => deleteNote(item.id) },
+        ])
+      }
+      setPlaybackSpeed={setPlaybackSpeed}
+      currentRate={player.rate}
+      speeds={PLAYBACK_SPEEDS}
+      onSkip={(deltaMs) => control("skip err", () => playback.skip(deltaMs))}
+      skipMs={SKIP_MS}
+      requestPlay={(reverse = false) => playPause(item, { reverse })}
+      searchTerms={query.ok ? query.terms : []}
+      onPlayFrom={(positionMillis) => playPause(item, { positionMillis })}
+      onTrim={(inMs, outMs) => trimNoteAudio(item.id, inMs, outMs)}
+      onSplit={(atMs, inMs, outMs) => splitNoteAudio(item.id, atMs, inMs, outMs)}
+      positionMs={player.activeId === item.id ? player.positionMs : player.positions[item.id] || 0}
+      reversed={player.activeId === item.id && player.reversed}
+      onAddBookmark={(ms, label) => addBookmark(item.id, ms, label)}
+      onRemoveBookmark={(bookmarkId) => removeBookmark(item.id, bookmarkId)}
+      onSeek={(ms) => control("seek err", () => playback.seek(item, ms))}
+      onPlayDay={() => playDay(item)}
+      onSaveText={(title, body) => saveNoteText(item.id, title, body)}
+    />
+  );
+
   return (
     <View style={styles.container}>
       <Text style={styles.header}>Voice Journal</Text>
@@ -277,12 +995,15 @@ export default function App() {
         <View style={styles.searchBox}>
           <Ionicons name="search" size={18} color="#9aa0a6" />
           <TextInput
-            placeholder="Search by title or date"
+            placeholder="Search, e.g. duration:>2m after:yesterday"
             placeholderTextColor="#6f767a"
             style={styles.searchInput}
             value={search}
             onChangeText={setSearch}
+            autoCapitalize="none"
+            autoCorrect={false}
           />
+          {!query.ok && <Ionicons name="alert-circle" size={18} color="#ff6b6b" />}
         </View>
 
         <TouchableOpacity style={styles.iconBtn} onPress={backup}>
@@ -293,6 +1014,13 @@ export default function App() {
           <Ionicons name="cloud-download" size={18} color="#fff" />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.iconBtn, { marginLeft: 8 }]}
+          onPress={() => setSettingsVisible(true)}
+        >
+          <Ionicons name="settings" size={18} color="#fff" />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.iconBtn, { marginLeft: 8 }]}
           onPress={() => setFeedbackVisible(true)}
@@ -301,42 +1029,117 @@ export default function App() {
         </TouchableOpacity>
       </View>
 
-      <FlatList
-        data={filtered()}
-        keyExtractor={(i) => i.id}
-        contentContainerStyle={{ paddingBottom: 160, paddingTop: 12 }}
-        renderItem={({ item }) => (
-          <NoteItem
-            note={item}
-            playing={playingId === item.id}
-            progress={playingId === item.id ? progress : 0}
-            onPlay={(opts = {}) => playPause(item, opts)}
-            onPause={async () => {
-              if (soundRef.current) {
-                try {
-                  await soundRef.current.pauseAsync();
-                  setPlayingId(null);
-                } catch {}
-              }
-            }}
-            onRename={(newTitle) => renameNote(item.id, newTitle)}
-            onDelete={() =>
-              Alert.alert("Delete recording", "Delete this voice note?", [
-                { text: "Cancel", style: "cancel" },
-                { text: "Delete", style: "destructive", onPress: () => deleteNote(item.id) },
-              ])
-            }
-            setPlaybackSpeed={setPlaybackSpeed}
-            currentRate={rate}
-            requestPlay={(reverse = false) => playPause(item, { reverse, requestedRate: rate })}
-          />
+      {!query.ok && <Text style={styles.queryError}>{query.error}</Text>}
+
+      <FilterBar
+        notebooks={allNotebooks}
+        tags={allTags}
+        filter={noteFilter}
+        onChange={setNoteFilter}
+      />
+
+      {calendarVisible && (
+        <CalendarView
+          days={summarizeDays(matching)}
+          selectedDay={selectedDay}
+          onSelectDay={setSelectedDay}
+        />
+      )}
+
+      <View style={styles.listHeader}>
+        <Text style={styles.listCount}>
+          {visible.length} {visible.length === 1 ? "note" : "notes"}
+        </Text>
+        {selectedDay && (
+          <TouchableOpacity style={styles.dayChip} onPress={() => setSelectedDay(null)}>
+            <Text style={styles.dayChipText}>{selectedDay}</Text>
+            <Ionicons name="close-circle" size={14} color="#9aa0a6" />
+          </TouchableOpacity>
         )}
-        ListEmptyComponent={
-          <View style={{ padding: 24 }}>
-            <Text style={{ color: "#8a8f95" }}>No notes yet - tap the mic to create one.</Text>
+        {streak > 0 && (
+          <View style={styles.streak}>
+            <Ionicons name="flame" size={14} color="#ff9f43" />
+            <Text style={styles.streakText}>{streak}-day streak</Text>
           </View>
-        }
-      />
+        )}
+        <View style={{ flex: 1 }} />
+        <TouchableOpacity style={styles.viewToggle} onPress={() => setTrashVisible(true)}>
+          <Ionicons name="trash-outline" size={18} color="#9aa0a6" />
+          {trash.length > 0 && <Text style={styles.badge}>{trash.length}</Text>}
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.viewToggle} onPress={() => setCalendarVisible((v) => !v)}>
+          <Ionicons
+            name="calendar"
+            size={18}
+            color={calendarVisible || selectedDay ? "#4f9cff" : "#9aa0a6"}
+          />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.viewToggle} onPress={() => setTimeline((v) => !v)}>
+          <Ionicons name={timeline ? "list" : "git-commit"} size={18} color="#9aa0a6" />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.viewToggle} onPress={() => setExportVisible(true)}>
+          <Ionicons name="share-outline" size={18} color="#9aa0a6" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.playAll}
+          disabled={visible.length === 0}
+          onPress={() => playAll(visible)}
+        >
+          <Ionicons name="play-circle" size={18} color="#4f9cff" />
+          <Text style={styles.playAllText}>Play all</Text>
+        </TouchableOpacity>
+      </View>
+
+      {timeline ? (
+        <SectionList
+          sections={groupByDay(visible)}
+          keyExtractor={(i) => i.id}
+          contentContainerStyle={{ paddingBottom: 160, paddingTop: 12 }}
+          renderItem={renderNote}
+          stickySectionHeadersEnabled
+          renderSectionHeader={({ section }) => (
+            <View style={styles.dayHeader}>
+              <Text style={styles.dayTitle}>{new Date(section.start).toDateString()}</Text>
+              <Text style={styles.listCount}>
+                {section.data.length} - {Math.round(section.durationMs / 60000)} min
+              </Text>
+            </View>
+          )}
+          ListEmptyComponent={emptyList}
+        />
+      ) : (
+        <FlatList
+          data={visible}
+          keyExtractor={(i) => i.id}
+          contentContainerStyle={{ paddingBottom: 160, paddingTop: 12 }}
+          renderItem={renderNote}
+          ListEmptyComponent={emptyList}
+        />
+      )}
+
+      {player.activeId && (
+        <MiniPlayer
+          note={notes.find((n) => n.id === player.activeId)}
+          state={player}
+          onPrevious={() => control("previous err", playback.previous)}
+          onTogglePause={() => control("toggle err", playback.togglePause)}
+          onNext={() => control("next err", playback.next)}
+          onClose={() => control("stop err", playback.stop)}
+        />
+      )}
+
+      {lastDeleted && (
+        <UndoToast
+          message={`Moved "${lastDeleted.note.title}" to the trash`}
+          onUndo={() => restoreTrashed(lastDeleted)}
+          onDismiss={() => setLastDeleted(null)}
+          bottom={player.activeId ? 190 : 120}
+        />
+      )}
+
+      <TouchableOpacity style={styles.textFab} onPress={() => setTextEntryVisible(true)}>
+        <Ionicons name="create-outline" size={22} color="#fff" />
+      </TouchableOpacity>
 
       <Animated.View style={[styles.fab, { transform: [{ scale: scaleAnim }] }]}>
         <TouchableOpacity
@@ -353,12 +1156,84 @@ export default function App() {
         visible={recVisible}
         onClose={() => setRecVisible(false)}
         onSave={addNoteFromRecording}
+        settings={recordingSettings}
+      />
+
+      <RestoreModal
+        visible={!!restoreSession}
+        preview={(policy) =>
+          restoreSession ? planRestore(restoreSession, notes, policy, () => "(new id)") : null
+        }
+        corruptCount={restoreSession ? restoreSession.corrupt.length : 0}
+        onConfirm={confirmRestore}
+        onClose={() => setRestoreSession(null)}
       />
 
       <FeedbackModal
         visible={feedbackVisible}
         onClose={() => setFeedbackVisible(false)}
-        storageKey={FEEDBACK_KEY}
+        endpoint={feedbackEndpoint}
+        onDeliver={deliverFeedback}
+        device={DEVICE}
+      />
+
+      <TrashModal
+        visible={trashVisible}
+        items={trash}
+        retentionDays={retentionDays}
+        onRestore={restoreTrashed}
+        onEmpty={emptyTrash}
+        onChangeRetention={changeRetention}
+        onClose={() => setTrashVisible(false)}
+      />
+
+      <TextEntryModal
+        visible={textEntryVisible}
+        withTitle
+        onSave={addTextEntry}
+        onClose={() => setTextEntryVisible(false)}
+      />
+
+      <ExportModal
+        visible={exportVisible}
+        notes={visible}
+        onClose={() => setExportVisible(false)}
+      />
+
+      <SettingsModal
+        visible={settingsVisible}
+        onClose={() => setSettingsVisible(false)}
+        passcodeEnabled={!!vault.lockConfig()}
+        onPasscode={() => {
+          // the passcode dialogs are separate modals
+          setSettingsVisible(false);
+          openLockSettings();
+        }}
+        onScan={scanIntegrity}
+        onRepair={repairIssue}
+        recordingSettings={recordingSettings}
+        onChangeRecordingSettings={changeRecordingSettings}
+        syncConfig={syncConfig}
+        lastSyncAt={lastSyncAt}
+        syncing={syncing}
+        onSaveSyncConfig={changeSyncConfig}
+        onSync={runSync}
+        feedbackEndpoint={feedbackEndpoint}
+        onSaveFeedbackEndpoint={changeFeedbackEndpoint}
+        device={DEVICE}
+        reminderSettings={reminderSettings}
+        onChangeReminderSettings={changeReminderSettings}
+        nextReminderAt={nextReminderAt}
+      />
+
+      <PasscodeModal
+        visible={passcodeMode !== null}
+        mode={passcodeMode || "set"}
+        onSubmit={submitPasscode}
+        onClose={() => {
+          setPasscodeMode(null);
+          pendingBackup.current = null;
+        }}
       />
     </View>
   );
@@ -381,6 +1256,38 @@ const styles = StyleSheet.create({
   },
 
   searchInput: { marginLeft: 8, color: "#fff", flex: 1, fontSize: 15 },
+  queryError: { color: "#ff6b6b", fontSize: 12, marginTop: 6, marginLeft: 4 },
+  listHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+  listCount: { color: "#8a8f95", fontSize: 12 },
+  dayChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1f2230",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginLeft: 8,
+  },
+  dayChipText: { color: "#d6d9dc", fontSize: 12, marginRight: 4 },
+  streak: { flexDirection: "row", alignItems: "center", marginLeft: 8 },
+  streakText: { color: "#ff9f43", fontSize: 12, marginLeft: 2 },
+  viewToggle: { paddingHorizontal: 6, flexDirection: "row", alignItems: "center" },
+  badge: { color: "#9aa0a6", fontSize: 11, marginLeft: 2 },
+  dayHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    backgroundColor: "#0f1012",
+    paddingVertical: 6,
+  },
+  dayTitle: { color: "#d6d9dc", fontWeight: "600" },
+  playAll: { flexDirection: "row", alignItems: "center", marginLeft: 6 },
+  playAllText: { color: "#4f9cff", fontSize: 13, marginLeft: 4 },
 
   iconBtn: {
     marginLeft: 10,
@@ -401,4 +1308,16 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     elevation: 12,
   },
+  textFab: {
+    position: "absolute",
+    bottom: 48,
+    right: 24,
+    backgroundColor: "#1f2230",
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: "center",
+    justifyContent: "center",
+    elevation: 8,
+  },
 });
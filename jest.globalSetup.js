@@ -0,0 +1,4 @@
+// Date tests (DST, "yesterday", reminder times) expect a zone with daylight saving time.
+module.exports = async () => {
+  process.env.TZ = "Europe/Berlin";
+};
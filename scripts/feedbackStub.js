@@ -0,0 +1,41 @@
+// Local stand-in for the feedback endpoint (see src/lib/feedbackOutbox.ts).
+//
+//   node scripts/feedbackStub.js [port]
+//
+// Accepts POST / with the feedback JSON, prints each request and answers 201, or 200 for
+// an id it has already seen. Set FAIL=500 (or any status) to answer with that status
+// instead, to watch the app retry.
+const http = require("http");
+
+const port = Number(process.argv[2]) || 8787;
+const fail = Number(process.env.FAIL) || 0;
+const seen = new Set();
+
+http
+  .createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (req.method !== "POST") {
+        res.writeHead(405).end();
+        return;
+      }
+      let entry;
+      try {
+        entry = JSON.parse(body);
+      } catch {
+        res.writeHead(400).end("invalid JSON");
+        return;
+      }
+      console.log(new Date().toISOString(), req.headers["idempotency-key"], entry);
+      if (fail) {
+        res.writeHead(fail).end();
+        return;
+      }
+      const repeated = seen.has(entry.id);
+      seen.add(entry.id);
+      res.writeHead(repeated ? 200 : 201, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ id: entry.id }));
+    });
+  })
+  .listen(port, () => console.log(`feedback stub listening on http://localhost:${port}/`));
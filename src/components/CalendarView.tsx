@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { formatDay, parseDay } from "../lib/query";
+import { monthGrid, shiftMonth } from "../lib/calendar";
+import type { DaySummary } from "../lib/calendar";
+
+type CalendarViewProps = {
+  days: Map<string, DaySummary>;
+  selectedDay: string | null;
+  onSelectDay: (day: string | null) => void;
+};
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+// Month grid marking days with entries and their total minutes. Tapping a day selects it,
+// tapping it again clears the selection.
+export default function CalendarView({ days, selectedDay, onSelectDay }: CalendarViewProps) {
+  const [month, setMonth] = useState(() => {
+    const d = new Date((selectedDay && parseDay(selectedDay, Date.now())) || Date.now());
+    return { year: d.getFullYear(), month: d.getMonth() };
+  });
+  const today = formatDay(Date.now());
+  const label = new Date(month.year, month.month, 1).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+
+  return (
+    <View style={styles.box}>
+      <View style={styles.nav}>
+        <TouchableOpacity onPress={() => setMonth(shiftMonth(month.year, month.month, -1))}>
+          <Ionicons name="chevron-back" size={18} color="#9aa0a6" />
+        </TouchableOpacity>
+        <Text style={styles.month}>{label}</Text>
+        <TouchableOpacity onPress={() => setMonth(shiftMonth(month.year, month.month, 1))}>
+          <Ionicons name="chevron-forward" size={18} color="#9aa0a6" />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.week}>
+        {WEEKDAYS.map((w, i) => (
+          <Text key={i} style={[styles.cell, styles.weekday]}>
+            {w}
+          </Text>
+        ))}
+      </View>
+
+      {monthGrid(month.year, month.month).map((week, i) => (
+        <View key={i} style={styles.week}>
+          {week.map((day, j) => {
+            if (!day) return <View key={j} style={styles.cell} />;
+            const summary = days.get(day);
+            const selected = day === selectedDay;
+            return (
+              <TouchableOpacity
+                key={j}
+                style={[styles.cell, summary && styles.marked, selected && styles.selected]}
+                onPress={() => onSelectDay(selected ? null : day)}
+              >
+                <Text style={[styles.date, day === today && styles.today]}>
+                  {Number(day.slice(8))}
+                </Text>
+                {summary && (
+                  <Text style={styles.minutes}>
+                    {Math.max(1, Math.round(summary.durationMs / 60000))}m
+                  </Text>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  box: { backgroundColor: "#15171c", borderRadius: 12, padding: 8, marginTop: 10 },
+  nav: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 6,
+    marginBottom: 6,
+  },
+  month: { color: "#fff", fontWeight: "600" },
+  week: { flexDirection: "row" },
+  cell: {
+    flex: 1,
+    height: 40,
+    margin: 1,
+    borderRadius: 6,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  weekday: { color: "#6f767a", fontSize: 11, height: 18, textAlign: "center" },
+  marked: { backgroundColor: "#1f2a3d" },
+  selected: { backgroundColor: "#1e88ff" },
+  date: { color: "#d6d9dc", fontSize: 13 },
+  today: { color: "#4f9cff", fontWeight: "700" },
+  minutes: { color: "#9aa0a6", fontSize: 9 },
+});
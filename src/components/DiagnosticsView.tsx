@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, FlatList, Alert, Platform } from "react-native";
+import * as FileSystem from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  LOG_LEVELS,
+  clearLog,
+  deviceSummary,
+  diagnosticsReport,
+  logError,
+  recentLog,
+  subscribeLog,
+} from "../lib/diagnostics";
+import type { DeviceInfo, LogEntry, LogLevel } from "../lib/diagnostics";
+
+type DiagnosticsViewProps = {
+  device: DeviceInfo;
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: "#6f767a",
+  info: "#9aa0a6",
+  warn: "#ffd166",
+  error: "#ff6b6b",
+};
+
+// lowest level shown
+const FILTERS: { level: LogLevel; label: string }[] = [
+  { level: "debug", label: "All" },
+  { level: "warn", label: "Warnings" },
+  { level: "error", label: "Errors" },
+];
+
+// Diagnostics page of the settings screen: the recent log, newest first.
+export default function DiagnosticsView({ device }: DiagnosticsViewProps) {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [minLevel, setMinLevel] = useState<LogLevel>("debug");
+
+  useEffect(() => {
+    const reload = () => {
+      recentLog().then((list) => setEntries([...list].reverse()));
+    };
+    reload();
+    return subscribeLog(reload);
+  }, []);
+
+  const shown = entries.filter((e) => LOG_LEVELS.indexOf(e.level) >= LOG_LEVELS.indexOf(minLevel));
+
+  async function share() {
+    try {
+      const path = FileSystem.cacheDirectory + `diagnostics_${Date.now()}.txt`;
+      await FileSystem.writeAsStringAsync(
+        path,
+        await diagnosticsReport(device, entries.length, Infinity)
+      );
+      await Sharing.shareAsync(path, { mimeType: "text/plain" });
+    } catch (e) {
+      logError("share diagnostics err", e);
+      Alert.alert("Error", "Could not share the log.");
+    }
+  }
+
+  function confirmClear() {
+    Alert.alert("Clear log", "Delete all diagnostics entries?", [
+      { text: "Cancel", style: "cancel" },
+      { text: "Clear", style: "destructive", onPress: () => clearLog() },
+    ]);
+  }
+
+  return (
+    <View style={{ flex: 1 }}>
+      <Text style={styles.hint}>{deviceSummary(device)}</Text>
+      <View style={styles.row}>
+        {FILTERS.map((f) => (
+          <TouchableOpacity
+            key={f.level}
+            style={[styles.chip, f.level === minLevel && styles.chipActive]}
+            onPress={() => setMinLevel(f.level)}
+          >
+            <Text style={styles.chipText}>{f.label}</Text>
+          </TouchableOpacity>
+        ))}
+        <View style={{ flex: 1 }} />
+        <TouchableOpacity onPress={share} style={styles.action}>
+          <Text style={{ color: "#2D8BFF" }}>Share</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={confirmClear} style={styles.action}>
+          <Text style={{ color: "#ff6b6b" }}>Clear</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={shown}
+        keyExtractor={(e, i) => `${e.at}-${i}`}
+        contentContainerStyle={{ paddingBottom: 40 }}
+        ListEmptyComponent={<Text style={styles.hint}>Nothing logged.</Text>}
+        renderItem={({ item }) => (
+          <View style={styles.entry}>
+            <Text style={styles.meta}>
+              <Text style={{ color: LEVEL_COLORS[item.level], fontWeight: "700" }}>
+                {item.level.toUpperCase()}
+              </Text>
+              {"  "}
+              {new Date(item.at).toLocaleString()}
+            </Text>
+            <Text style={styles.message}>{item.message}</Text>
+            {item.detail ? (
+              <Text style={styles.detail} numberOfLines={6}>
+                {item.detail}
+              </Text>
+            ) : null}
+          </View>
+        )}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  row: { flexDirection: "row", alignItems: "center", marginTop: 10, marginBottom: 6 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+  action: { paddingHorizontal: 6, paddingVertical: 4 },
+  entry: { paddingVertical: 8, borderTopColor: "#222", borderTopWidth: 1 },
+  meta: { color: "#8a8f95", fontSize: 11 },
+  message: { color: "#fff", marginTop: 2 },
+  detail: {
+    color: "#9aa0a6",
+    fontSize: 11,
+    marginTop: 2,
+    fontFamily: Platform.OS === "ios" ? "Courier" : "monospace",
+  },
+});
@@ -0,0 +1,213 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  PanResponder,
+  ActivityIndicator,
+} from "react-native";
+import type { GestureResponderEvent, LayoutChangeEvent } from "react-native";
+import type { Note } from "../types";
+import { readWavFile } from "../lib/audioFile";
+import { durationMillis } from "../lib/wav";
+import { resamplePeaks } from "../lib/waveform";
+
+type EditorModalProps = {
+  visible: boolean;
+  note: Note;
+  // where the playhead starts, e.g. the current playback position
+  initialPlayheadMs?: number;
+  onTrim: (inMs: number, outMs: number) => Promise<void>;
+  onSplit: (atMs: number, inMs: number, outMs: number) => Promise<void>;
+  onClose: () => void;
+};
+
+const BAR_COUNT = 60;
+const MIN_SELECTION = 200;
+
+function formatMs(ms: number) {
+  const total = ms / 1000;
+  const m = Math.floor(total / 60);
+  return `${m}:${(total % 60).toFixed(1).padStart(4, "0")}`;
+}
+
+export default function EditorModal({
+  visible,
+  note,
+  initialPlayheadMs = 0,
+  onTrim,
+  onSplit,
+  onClose,
+}: EditorModalProps) {
+  // exact length from the file; null while loading, -1 if the format can't be edited
+  const [length, setLength] = useState<number | null>(null);
+  const [inMs, setInMs] = useState(0);
+  const [outMs, setOutMs] = useState(0);
+  const [playhead, setPlayhead] = useState(0);
+  const [busy, setBusy] = useState(false);
+  const [width, setWidth] = useState(1);
+
+  // gesture handlers are created once, so they read current values through refs
+  const state = useRef({ inMs: 0, outMs: 0, length: 0, width: 1, start: 0 });
+  state.current = { ...state.current, inMs, outMs, length: length || 0, width };
+
+  useEffect(() => {
+    if (!visible) return;
+    setLength(null);
+    readWavFile(note.uri)
+      .then((wav) => {
+        const len = wav ? durationMillis(wav) : -1;
+        setLength(len);
+        setInMs(0);
+        setOutMs(Math.max(0, len));
+        setPlayhead(Math.min(Math.max(0, len), initialPlayheadMs));
+      })
+      .catch(() => setLength(-1));
+  }, [visible, note.uri]);
+
+  function handle(which: "in" | "out") {
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        state.current.start = which === "in" ? state.current.inMs : state.current.outMs;
+      },
+      onPanResponderMove: (_, g) => {
+        const { start, length: len, width: w, inMs: i, outMs: o } = state.current;
+        const value = start + (g.dx / w) * len;
+        if (which === "in") setInMs(Math.max(0, Math.min(value, o - MIN_SELECTION)));
+        else setOutMs(Math.min(len, Math.max(value, i + MIN_SELECTION)));
+      },
+    });
+  }
+  const inHandle = useMemo(() => handle("in"), []);
+  const outHandle = useMemo(() => handle("out"), []);
+
+  function onWaveLayout(e: LayoutChangeEvent) {
+    setWidth(Math.max(1, e.nativeEvent.layout.width));
+  }
+
+  function onWavePress(e: GestureResponderEvent) {
+    if (!length || length < 0) return;
+    setPlayhead(Math.max(0, Math.min(length, (e.nativeEvent.locationX / width) * length)));
+  }
+
+  async function run(action: () => Promise<void>) {
+    setBusy(true);
+    try {
+      await action();
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const bars = resamplePeaks(note.peaks || [], BAR_COUNT);
+  const ready = length !== null && length > 0;
+  const x = (ms: number) => (ready ? (ms / (length as number)) * width : 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.box}>
+          <Text style={styles.title}>Edit "{note.title}"</Text>
+
+          {length === null && <ActivityIndicator color="#2D8BFF" style={{ marginVertical: 40 }} />}
+          {length === -1 && (
+            <Text style={styles.hint}>Only WAV recordings can be trimmed or split.</Text>
+          )}
+
+          {ready && (
+            <>
+              <View style={styles.wave} onLayout={onWaveLayout}>
+                <TouchableOpacity activeOpacity={1} style={styles.bars} onPress={onWavePress}>
+                  {bars.map((v, i) => {
+                    const t = ((i + 0.5) / BAR_COUNT) * (length as number);
+                    const selected = t >= inMs && t <= outMs;
+                    return (
+                      <View
+                        key={i}
+                        style={[
+                          styles.bar,
+                          { height: 6 + v * 60, backgroundColor: selected ? "#3fb0ff" : "#2a3b4d" },
+                        ]}
+                      />
+                    );
+                  })}
+                </TouchableOpacity>
+                <View pointerEvents="none" style={[styles.playhead, { left: x(playhead) }]} />
+                <View {...inHandle.panHandlers} style={[styles.handle, { left: x(inMs) - 12 }]}>
+                  <View style={styles.handleGrip} />
+                </View>
+                <View {...outHandle.panHandlers} style={[styles.handle, { left: x(outMs) - 12 }]}>
+                  <View style={styles.handleGrip} />
+                </View>
+              </View>
+
+              <View style={styles.times}>
+                <Text style={styles.time}>In {formatMs(inMs)}</Text>
+                <Text style={[styles.time, { color: "#ff9f43" }]}>
+                  Playhead {formatMs(playhead)}
+                </Text>
+                <Text style={styles.time}>Out {formatMs(outMs)}</Text>
+              </View>
+              <Text style={styles.hint}>
+                Drag the handles to select, tap the waveform to move the playhead.
+              </Text>
+            </>
+          )}
+
+          <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+            <TouchableOpacity onPress={onClose} disabled={busy}>
+              <Text style={{ color: "#aaa" }}>Cancel</Text>
+            </TouchableOpacity>
+            {ready && (
+              <View style={{ flexDirection: "row" }}>
+                <TouchableOpacity
+                  disabled={busy}
+                  onPress={() => run(() => onSplit(playhead, inMs, outMs))}
+                  style={{ marginRight: 20 }}
+                >
+                  <Text style={{ color: "#ffd166" }}>Split at playhead</Text>
+                </TouchableOpacity>
+                <TouchableOpacity disabled={busy} onPress={() => run(() => onTrim(inMs, outMs))}>
+                  <Text style={{ color: "#2D8BFF" }}>Trim</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "92%",
+    backgroundColor: "#0f1113",
+    padding: 18,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  title: { color: "#fff", fontSize: 17, fontWeight: "700", marginBottom: 12 },
+  hint: { color: "#8a8f95", fontSize: 12, marginTop: 8 },
+
+  wave: { height: 80, marginTop: 8, justifyContent: "center" },
+  bars: { flexDirection: "row", alignItems: "center", justifyContent: "space-between", height: 80 },
+  bar: { width: 3, borderRadius: 2 },
+  playhead: { position: "absolute", top: 0, bottom: 0, width: 2, backgroundColor: "#ff9f43" },
+  handle: { position: "absolute", top: 0, bottom: 0, width: 24, alignItems: "center" },
+  handleGrip: { flex: 1, width: 4, borderRadius: 2, backgroundColor: "#fff" },
+
+  times: { flexDirection: "row", justifyContent: "space-between", marginTop: 10 },
+  time: { color: "#c8d0da", fontSize: 12, fontVariant: ["tabular-nums"] },
+});
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Sharing from "expo-sharing";
+import type { Note } from "../types";
+import { EXPORT_EXTENSIONS, exportMergedAudio, exportText } from "../lib/journalExport";
+import type { ExportKind, ExportResult } from "../lib/journalExport";
+import { logError } from "../lib/diagnostics";
+
+type ExportModalProps = {
+  visible: boolean;
+  // the notes currently shown in the list
+  notes: Note[];
+  onClose: () => void;
+};
+
+const GAP_CHOICES = [500, 1000, 2000];
+
+const KINDS: { kind: ExportKind; icon: keyof typeof Ionicons.glyphMap; label: string }[] = [
+  { kind: "markdown", icon: "document-text", label: "Markdown journal" },
+  { kind: "csv", icon: "grid", label: "CSV index" },
+  { kind: "audio", icon: "musical-notes", label: "Merged audio (WAV)" },
+];
+
+export default function ExportModal({ visible, notes, onClose }: ExportModalProps) {
+  const [gapMs, setGapMs] = useState(1000);
+  const [working, setWorking] = useState<ExportKind | null>(null);
+  const wavCount = notes.filter((n) => n.format && n.format.encoding === "pcm").length;
+
+  async function run(kind: ExportKind) {
+    if (working) return;
+    setWorking(kind);
+    try {
+      const result: ExportResult =
+        kind === "audio" ? await exportMergedAudio(notes, gapMs) : await exportText(kind, notes);
+      await Sharing.shareAsync(result.uri);
+      if (result.skipped > 0) {
+        Alert.alert(
+          "Export",
+          `${result.skipped} ${result.skipped === 1 ? "note was" : "notes were"} left out ` +
+            "because only WAV audio can be merged."
+        );
+      }
+    } catch (e) {
+      logError("export err", e);
+      Alert.alert("Export failed", String(e));
+    } finally {
+      setWorking(null);
+    }
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.box}>
+          <Text style={styles.title}>Export</Text>
+          <Text style={styles.subtitle}>
+            {notes.length} {notes.length === 1 ? "note" : "notes"} from the current list, oldest
+            first.
+          </Text>
+
+          {KINDS.map(({ kind, icon, label }) => {
+            const disabled = notes.length === 0 || (kind === "audio" && wavCount === 0);
+            return (
+              <TouchableOpacity
+                key={kind}
+                style={[styles.option, disabled && { opacity: 0.4 }]}
+                disabled={disabled || working !== null}
+                onPress={() => run(kind)}
+              >
+                <Ionicons name={icon} size={18} color="#9aa0a6" />
+                <Text style={styles.optionText}>{label}</Text>
+                <Text style={styles.meta}>
+                  {working === kind
+                    ? "Exporting..."
+                    : kind === "audio"
+                    ? `${wavCount} WAV`
+                    : "." + EXPORT_EXTENSIONS[kind]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          <Text style={styles.section}>Silence between notes</Text>
+          <View style={styles.row}>
+            {GAP_CHOICES.map((ms) => (
+              <TouchableOpacity
+                key={ms}
+                style={[styles.chip, ms === gapMs && styles.chipActive]}
+                onPress={() => setGapMs(ms)}
+              >
+                <Text style={styles.chipText}>{ms / 1000}s</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={{ marginTop: 16, alignItems: "center" }}>
+            <TouchableOpacity onPress={onClose} style={{ padding: 8 }}>
+              <Text style={{ color: "#fff" }}>Close</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "92%",
+    backgroundColor: "#0f1113",
+    padding: 18,
+    borderRadius: 12,
+    borderColor: "#222",
+    borderWidth: 1,
+  },
+  title: { color: "#fff", fontSize: 18, fontWeight: "700" },
+  subtitle: { color: "#8a8f95", marginTop: 6, marginBottom: 8 },
+  option: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#15171c",
+    borderRadius: 10,
+    padding: 14,
+    marginTop: 8,
+  },
+  optionText: { color: "#fff", marginLeft: 10, flex: 1 },
+  meta: { color: "#9aa0a6", fontSize: 12 },
+  section: { color: "#9aa0a6", marginTop: 16, fontWeight: "600" },
+  row: { flexDirection: "row", flexWrap: "wrap", marginTop: 4 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+});
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+
+type FeedbackEndpointViewProps = {
+  endpoint: string | null;
+  // null stops sending; feedback stays in the outbox
+  onSave: (endpoint: string | null) => void;
+};
+
+// Feedback page of the settings screen: the URL feedback is posted to.
+export default function FeedbackEndpointView({ endpoint, onSave }: FeedbackEndpointViewProps) {
+  const [url, setUrl] = useState("");
+
+  useEffect(() => {
+    setUrl(endpoint || "");
+  }, [endpoint]);
+
+  const trimmed = url.trim();
+  const valid = /^https?:\/\/\S+$/i.test(trimmed);
+
+  return (
+    <View>
+      <Text style={styles.hint}>
+        Feedback is posted as JSON to this URL. Entries that can't be sent wait in the outbox and
+        are retried when the app opens or comes back to the foreground.
+      </Text>
+      <Text style={styles.section}>Endpoint URL</Text>
+      <TextInput
+        value={url}
+        onChangeText={setUrl}
+        placeholder="https://example.com/feedback"
+        placeholderTextColor="#7b8086"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        style={styles.input}
+      />
+      {trimmed !== (endpoint || "") && (
+        <TouchableOpacity
+          style={[styles.button, !valid && trimmed !== "" && { opacity: 0.4 }]}
+          disabled={!valid && trimmed !== ""}
+          onPress={() => onSave(trimmed || null)}
+        >
+          <Text style={styles.buttonText}>{trimmed ? "Save" : "Remove endpoint"}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  section: { color: "#9aa0a6", marginTop: 16, fontWeight: "600" },
+  input: {
+    backgroundColor: "#151516",
+    color: "#fff",
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 6,
+    borderColor: "#222",
+    borderWidth: 1,
+  },
+  button: {
+    marginTop: 16,
+    backgroundColor: "#1f2230",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonText: { color: "#fff", fontWeight: "600" },
+});
@@ -1,70 +1,119 @@
 import React, { useEffect, useState } from "react";
-import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from "react-native";
-import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+} from "react-native";
 import * as FileSystem from "expo-file-system";
 import * as Sharing from "expo-sharing";
-
-type FeedbackEntry = {
-  id: string;
-  name: string;
-  email: string;
-  message: string;
-  ts: number;
-};
+import { Ionicons } from "@expo/vector-icons";
+import { addFeedback, loadOutbox, retryFeedback } from "../lib/feedbackOutbox";
+import type { FeedbackEntry } from "../lib/feedbackOutbox";
+import { diagnosticsReport, logError } from "../lib/diagnostics";
+import type { DeviceInfo } from "../lib/diagnostics";
 
 type FeedbackModalProps = {
   visible: boolean;
   onClose: () => void;
-  storageKey: string;
+  // where feedback is sent; null keeps it in the outbox until one is set
+  endpoint: string | null;
+  // sends whatever is due in the outbox
+  onDeliver: () => Promise<void>;
+  // described in the attached diagnostics
+  device: DeviceInfo;
 };
 
-export default function FeedbackModal({ visible, onClose, storageKey }: FeedbackModalProps) {
+function statusText(entry: FeedbackEntry) {
+  switch (entry.status) {
+    case "sent":
+      return `Sent ${new Date(entry.sentAt || entry.ts).toLocaleString()}`;
+    case "failed":
+      return `Not sent${entry.lastError ? `: ${entry.lastError}` : ""}`;
+    default:
+      return entry.nextAttemptAt
+        ? `Waiting, next try ${new Date(entry.nextAttemptAt).toLocaleTimeString()}`
+        : "Waiting to send";
+  }
+}
+
+const STATUS_COLORS: Record<FeedbackEntry["status"], string> = {
+  pending: "#ffd166",
+  sent: "#7ee08a",
+  failed: "#ff6b6b",
+};
+
+export default function FeedbackModal({
+  visible,
+  onClose,
+  endpoint,
+  onDeliver,
+  device,
+}: FeedbackModalProps) {
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [message, setMessage] = useState("");
   const [stored, setStored] = useState<FeedbackEntry[]>([]);
+  // attach the device summary and recent log to new feedback and to the export
+  const [attachLog, setAttachLog] = useState(false);
 
   useEffect(() => {
     if (visible) {
-      (async () => {
-        const s = await AsyncStorage.getItem(storageKey);
-        setStored(s ? (JSON.parse(s) as FeedbackEntry[]) : []);
-      })();
+      reload();
     } else {
       // clear fields
       setName("");
       setEmail("");
       setMessage("");
     }
-  }, [visible, storageKey]);
+  }, [visible]);
+
+  async function reload() {
+    setStored(await loadOutbox().catch(() => [] as FeedbackEntry[]));
+  }
+
+  async function deliver() {
+    await onDeliver().catch((e) => logError("deliver feedback err", e));
+    await reload();
+  }
 
   async function submit() {
     if (!message.trim()) return Alert.alert("Please write feedback first.");
-    const entry: FeedbackEntry = {
-      id: Date.now().toString(),
-      name,
-      email,
-      message,
-      ts: Date.now(),
-    };
-    const updated = [entry, ...stored];
-    await AsyncStorage.setItem(storageKey, JSON.stringify(updated));
-    setStored(updated);
-    Alert.alert("Thanks!", "Your feedback was saved locally. You can share it if you want.");
+    const diagnostics = attachLog ? await diagnosticsReport(device) : undefined;
+    await addFeedback({ name, email, message, diagnostics });
     setName("");
     setEmail("");
     setMessage("");
+    await reload();
+    if (!endpoint) {
+      Alert.alert("Thanks!", "Your feedback was saved. It will be sent once an endpoint is set.");
+      return;
+    }
+    await deliver();
+  }
+
+  async function retry(entry: FeedbackEntry) {
+    await retryFeedback(entry.id);
+    await deliver();
   }
 
   async function exportFeedback() {
     try {
       const path = FileSystem.documentDirectory + `feedback_export_${Date.now()}.json`;
-      await FileSystem.writeAsStringAsync(path, JSON.stringify(stored, null, 2), {
+      // with the log attached the export is an object instead of the bare list
+      const content = attachLog
+        ? { entries: stored, diagnostics: await diagnosticsReport(device) }
+        : stored;
+      await FileSystem.writeAsStringAsync(path, JSON.stringify(content, null, 2), {
         encoding: FileSystem.EncodingType.UTF8,
       });
       await Sharing.shareAsync(path);
     } catch (e) {
-      console.log("export feedback err", e);
+      logError("export feedback err", e);
       Alert.alert("Error", "Could not export feedback.");
     }
   }
@@ -99,16 +148,48 @@ export default function FeedbackModal({ visible, onClose, storageKey }: Feedback
             style={[styles.input, { height: 100 }]}
             multiline
           />
+          <TouchableOpacity style={styles.attach} onPress={() => setAttachLog(!attachLog)}>
+            <Ionicons
+              name={attachLog ? "checkbox" : "square-outline"}
+              size={18}
+              color={attachLog ? "#2D8BFF" : "#9aa0a6"}
+            />
+            <Text style={styles.attachText}>Attach diagnostics log and device info</Text>
+          </TouchableOpacity>
 
           <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 12 }}>
             <TouchableOpacity onPress={submit}>
-              <Text style={{ color: "#9aa0a6" }}>Save</Text>
+              <Text style={{ color: "#9aa0a6" }}>Send</Text>
             </TouchableOpacity>
             <TouchableOpacity onPress={exportFeedback}>
               <Text style={{ color: "#2D8BFF" }}>Export</Text>
             </TouchableOpacity>
           </View>
 
+          {stored.length > 0 && (
+            <ScrollView style={styles.history}>
+              {stored.map((entry) => (
+                <View key={entry.id} style={styles.entry}>
+                  <View style={[styles.dot, { backgroundColor: STATUS_COLORS[entry.status] }]} />
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.entryText} numberOfLines={1}>
+                      {entry.message}
+                    </Text>
+                    <Text style={styles.entryMeta} numberOfLines={2}>
+                      {statusText(entry)}
+                      {entry.diagnostics ? " · log attached" : ""}
+                    </Text>
+                  </View>
+                  {entry.status === "failed" && (
+                    <TouchableOpacity onPress={() => retry(entry)} style={{ padding: 4 }}>
+                      <Text style={{ color: "#2D8BFF" }}>Retry</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
           <View style={{ marginTop: 12, alignItems: "center" }}>
             <TouchableOpacity onPress={onClose} style={{ padding: 8 }}>
               <Text style={{ color: "#fff" }}>Close</Text>
@@ -146,4 +227,17 @@ const styles = StyleSheet.create({
     borderColor: "#222",
     borderWidth: 1,
   },
+  attach: { flexDirection: "row", alignItems: "center", marginTop: 10 },
+  attachText: { color: "#9aa0a6", marginLeft: 8, fontSize: 13 },
+  history: { maxHeight: 180, marginTop: 12 },
+  entry: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderTopColor: "#222",
+    borderTopWidth: 1,
+  },
+  dot: { width: 8, height: 8, borderRadius: 4, marginRight: 10 },
+  entryText: { color: "#d6d9dc" },
+  entryMeta: { color: "#8a8f95", fontSize: 12, marginTop: 2 },
 });
@@ -0,0 +1,87 @@
+import React from "react";
+import { ScrollView, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { NoteFilter } from "../lib/tags";
+
+type FilterBarProps = {
+  notebooks: string[];
+  tags: string[];
+  filter: NoteFilter;
+  onChange: (filter: NoteFilter) => void;
+};
+
+// Horizontal row of notebook and tag chips shown above the note list.
+export default function FilterBar({ notebooks, tags, filter, onChange }: FilterBarProps) {
+  const active = !!filter.notebook || filter.tags.length > 0;
+  // stays up while a filter is set, so it can always be cleared
+  if (notebooks.length === 0 && tags.length === 0 && !active) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.bar}
+      contentContainerStyle={{ alignItems: "center" }}
+    >
+      {active && (
+        <TouchableOpacity
+          style={styles.chip}
+          onPress={() => onChange({ tags: [], notebook: null })}
+        >
+          <Ionicons name="close-circle" size={14} color="#9aa0a6" />
+        </TouchableOpacity>
+      )}
+      {notebooks.map((b) => {
+        const on = filter.notebook === b;
+        return (
+          <TouchableOpacity
+            key={"nb:" + b}
+            style={[styles.chip, on && styles.chipActive]}
+            onPress={() => onChange({ ...filter, notebook: on ? null : b })}
+          >
+            <Ionicons
+              name="folder"
+              size={12}
+              color={on ? "#fff" : "#9aa0a6"}
+              style={{ marginRight: 4 }}
+            />
+            <Text style={on ? styles.textActive : styles.text}>{b}</Text>
+          </TouchableOpacity>
+        );
+      })}
+      {tags.map((t) => {
+        const on = filter.tags.includes(t);
+        return (
+          <TouchableOpacity
+            key={"tag:" + t}
+            style={[styles.chip, on && styles.chipActive]}
+            onPress={() =>
+              onChange({
+                ...filter,
+                tags: on ? filter.tags.filter((x) => x !== t) : [...filter.tags, t],
+              })
+            }
+          >
+            <Text style={on ? styles.textActive : styles.text}>#{t}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: { marginTop: 10, flexGrow: 0 },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#151517",
+    marginRight: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  text: { color: "#9aa0a6", fontSize: 13 },
+  textActive: { color: "#fff", fontSize: 13 },
+});
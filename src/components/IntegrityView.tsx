@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Alert } from "react-native";
+import { fileName } from "../lib/archive";
+import { summarize, withoutIssue } from "../lib/integrity";
+import type { IntegrityIssue, IntegrityReport, RepairAction } from "../lib/integrity";
+
+type IntegrityViewProps = {
+  onScan: (onProgress: (done: number, total: number) => void) => Promise<IntegrityReport>;
+  // `target` is the file chosen for a re-link
+  onRepair: (issue: IntegrityIssue, action: RepairAction, target?: string) => Promise<void>;
+};
+
+function seconds(ms: number) {
+  return `${Math.round(ms / 1000)}s`;
+}
+
+function issueUri(issue: IntegrityIssue) {
+  return issue.kind === "orphanFile" || issue.kind === "staleReversed" ? issue.uri : undefined;
+}
+
+// Storage check page of the settings screen: runs the scan and offers a repair per issue.
+export default function IntegrityView({ onScan, onRepair }: IntegrityViewProps) {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  async function scan() {
+    setProgress("Scanning...");
+    try {
+      setReport(await onScan((done, total) => setProgress(`Scanning ${done}/${total}...`)));
+    } catch (e) {
+      Alert.alert("Scan failed", String(e));
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  async function repair(issue: IntegrityIssue, action: RepairAction, target?: string) {
+    if (!report || working) return;
+    setWorking(true);
+    try {
+      await onRepair(issue, action, target);
+      const used = action === "relink" ? target : action === "adopt" ? issueUri(issue) : undefined;
+      setReport(withoutIssue(report, issue, used));
+    } catch (e) {
+      Alert.alert("Repair failed", String(e));
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  function confirmDelete(issue: IntegrityIssue, what: string) {
+    Alert.alert("Delete", `Delete ${what}?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => repair(issue, "delete") },
+    ]);
+  }
+
+  const action = (label: string, onPress: () => void, danger = false) => (
+    <TouchableOpacity key={label} style={styles.action} onPress={onPress} disabled={working}>
+      <Text style={danger ? styles.danger : styles.actionText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  function renderIssue(issue: IntegrityIssue, i: number) {
+    switch (issue.kind) {
+      case "missingAudio":
+        return (
+          <View key={i} style={styles.issue}>
+            <Text style={styles.issueTitle}>{issue.note.title}</Text>
+            <Text style={styles.meta}>Audio file is missing</Text>
+            <View style={styles.actions}>
+              {issue.candidates
+                .slice(0, 3)
+                .map((c) => action(`Re-link to ${fileName(c)}`, () => repair(issue, "relink", c)))}
+              {action("Move note to trash", () => repair(issue, "delete"), true)}
+            </View>
+          </View>
+        );
+      case "orphanFile":
+        return (
+          <View key={i} style={styles.issue}>
+            <Text style={styles.issueTitle}>{fileName(issue.uri)}</Text>
+            <Text style={styles.meta}>No note uses this file</Text>
+            <View style={styles.actions}>
+              {action("Adopt as new note", () => repair(issue, "adopt"))}
+              {action("Delete file", () => confirmDelete(issue, fileName(issue.uri)), true)}
+            </View>
+          </View>
+        );
+      case "staleReversed":
+        return (
+          <View key={i} style={styles.issue}>
+            <Text style={styles.issueTitle}>{fileName(issue.uri)}</Text>
+            <Text style={styles.meta}>Reversed copy of a file that is gone</Text>
+            <View style={styles.actions}>{action("Delete", () => repair(issue, "delete"))}</View>
+          </View>
+        );
+      case "badDuration":
+        return (
+          <View key={i} style={styles.issue}>
+            <Text style={styles.issueTitle}>{issue.note.title}</Text>
+            <Text style={styles.meta}>
+              Stored {seconds(issue.note.duration || 0)}
+              {issue.actualMs !== null
+                ? `, file is ${seconds(issue.actualMs)}`
+                : ", file length unknown"}
+            </Text>
+            {issue.actualMs !== null && (
+              <View style={styles.actions}>
+                {action("Recompute duration", () => repair(issue, "recompute"))}
+              </View>
+            )}
+          </View>
+        );
+    }
+  }
+
+  return (
+    <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.hint}>
+        Compares the notes with the audio files on this device. Nothing is changed until you pick a
+        repair.
+      </Text>
+      <TouchableOpacity style={styles.scan} onPress={scan} disabled={progress !== null}>
+        <Text style={styles.scanText}>{progress || (report ? "Scan again" : "Run check")}</Text>
+      </TouchableOpacity>
+
+      {report && (
+        <>
+          <Text style={styles.summary}>{summarize(report)}</Text>
+          {report.issues.map(renderIssue)}
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  scan: {
+    marginTop: 12,
+    backgroundColor: "#1f2230",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  scanText: { color: "#fff", fontWeight: "600" },
+  summary: { color: "#d6d9dc", marginTop: 16, marginBottom: 8 },
+  issue: { backgroundColor: "#15171c", borderRadius: 10, padding: 12, marginTop: 8 },
+  issueTitle: { color: "#fff", fontWeight: "600" },
+  meta: { color: "#9aa0a6", fontSize: 12, marginTop: 4 },
+  actions: { flexDirection: "row", flexWrap: "wrap", marginTop: 6 },
+  action: {
+    backgroundColor: "#1f2230",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 6,
+    marginTop: 6,
+  },
+  actionText: { color: "#4f9cff", fontSize: 12 },
+  danger: { color: "#ff6b6b", fontSize: 12 },
+});
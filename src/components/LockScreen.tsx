@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+type LockScreenProps = {
+  // resolves to false when the passcode is wrong
+  onUnlock: (passcode: string) => Promise<boolean>;
+};
+
+// Shown instead of the journal while it is locked.
+export default function LockScreen({ onUnlock }: LockScreenProps) {
+  const [passcode, setPasscode] = useState("");
+  const [wrong, setWrong] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  async function submit() {
+    if (!passcode || busy) return;
+    setBusy(true);
+    setWrong(false);
+    // let the busy state render before key derivation blocks the JS thread
+    await new Promise((r) => setTimeout(r, 50));
+    const ok = await onUnlock(passcode).catch(() => false);
+    setBusy(false);
+    if (!ok) {
+      setWrong(true);
+      setPasscode("");
+    }
+  }
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="lock-closed" size={40} color="#9aa0a6" />
+      <Text style={styles.title}>Voice Journal is locked</Text>
+      <TextInput
+        value={passcode}
+        onChangeText={setPasscode}
+        onSubmitEditing={submit}
+        placeholder="Passcode"
+        placeholderTextColor="#6f767a"
+        style={styles.input}
+        secureTextEntry
+        autoFocus
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!busy}
+      />
+      {wrong && <Text style={styles.error}>Wrong passcode</Text>}
+      <TouchableOpacity style={styles.button} onPress={submit} disabled={busy}>
+        <Text style={styles.buttonText}>{busy ? "Unlocking..." : "Unlock"}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#0f1012",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: 32,
+  },
+  title: { color: "#fff", fontSize: 20, fontWeight: "700", marginTop: 16 },
+  input: {
+    alignSelf: "stretch",
+    marginTop: 24,
+    padding: 12,
+    borderRadius: 10,
+    backgroundColor: "#16171A",
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#222",
+    textAlign: "center",
+    fontSize: 18,
+  },
+  error: { color: "#ff6b6b", marginTop: 10 },
+  button: {
+    marginTop: 20,
+    backgroundColor: "#1e88ff",
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 10,
+  },
+  buttonText: { color: "#fff", fontWeight: "600" },
+});
@@ -0,0 +1,79 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import type { Note } from "../types";
+import type { PlaybackState } from "../lib/playbackController";
+
+type MiniPlayerProps = {
+  note?: Note;
+  state: PlaybackState;
+  onPrevious: () => void;
+  onTogglePause: () => void;
+  onNext: () => void;
+  onClose: () => void;
+};
+
+function formatClock(ms: number) {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+// Compact player docked above the record button while a note is loaded.
+export default function MiniPlayer({
+  note,
+  state,
+  onPrevious,
+  onTogglePause,
+  onNext,
+  onClose,
+}: MiniPlayerProps) {
+  const queued = state.queue.length > 1;
+  const hasNext = queued && state.queueIndex < state.queue.length - 1;
+
+  return (
+    <View style={styles.bar}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.title} numberOfLines={1}>
+          {note ? note.title : "Playing"}
+        </Text>
+        <Text style={styles.meta}>
+          {formatClock(state.positionMs)} / {formatClock(state.durationMs)} - {state.rate}x
+          {queued ? `  (${state.queueIndex + 1}/${state.queue.length})` : ""}
+          {state.reversed ? "  reversed" : ""}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={onPrevious} style={styles.btn}>
+        <Ionicons name="play-skip-back" size={18} color="#fff" />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onTogglePause} style={styles.btn}>
+        <Ionicons name={state.playing ? "pause" : "play"} size={22} color="#fff" />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onNext} disabled={!hasNext} style={styles.btn}>
+        <Ionicons name="play-skip-forward" size={18} color={hasNext ? "#fff" : "#555"} />
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onClose} style={styles.btn}>
+        <Ionicons name="close" size={18} color="#9aa0a6" />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    bottom: 120,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1f2230",
+    borderRadius: 12,
+    paddingVertical: 8,
+    paddingLeft: 12,
+    paddingRight: 4,
+    elevation: 8,
+  },
+  title: { color: "#fff", fontWeight: "600" },
+  meta: { color: "#9aa0a6", fontSize: 12, marginTop: 2 },
+  btn: { padding: 8 },
+});
@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from "react";
+import React, { useRef, useState, useEffect, useMemo } from "react";
 import {
   View,
   Text,
@@ -9,9 +9,19 @@ import {
   Animated,
   Easing,
   Pressable,
+  Alert,
+  PanResponder,
 } from "react-native";
+import type { LayoutChangeEvent } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import type { Note } from "../types";
+import { resamplePeaks } from "../lib/waveform";
+import { matchingSegments } from "../lib/query";
+import { isTextEntry } from "../lib/entries";
+import OrganizeModal from "./OrganizeModal";
+import EditorModal from "./EditorModal";
+import RichText from "./RichText";
+import TextEntryModal from "./TextEntryModal";
 
 type PlayOptions = {
   reverse?: boolean;
@@ -20,16 +30,45 @@ type PlayOptions = {
 type NoteItemProps = {
   note: Note;
   playing: boolean;
+  // sound is loaded for this note (playing or paused)
+  active?: boolean;
   progress?: number;
   onPlay?: (opts?: PlayOptions) => void | Promise<void>;
   onPause?: () => void | Promise<void>;
   onDelete?: () => void;
   onRename?: (newTitle: string) => void;
+  onOrganize?: (tags: string[], notebook?: string) => void;
+  allTags?: string[];
+  allNotebooks?: string[];
   setPlaybackSpeed?: (rate: number) => void;
   currentRate?: number;
+  speeds?: number[];
+  onSkip?: (deltaMs: number) => void;
+  skipMs?: number;
   requestPlay?: (reverse?: boolean) => void | Promise<void>;
+  // free-text search terms; transcript segments containing them are listed on the card
+  searchTerms?: string[];
+  onPlayFrom?: (positionMillis: number) => void | Promise<void>;
+  onTrim?: (inMs: number, outMs: number) => Promise<void>;
+  onSplit?: (atMs: number, inMs: number, outMs: number) => Promise<void>;
+  // current playback position, used when dropping a bookmark
+  positionMs?: number;
+  // playing the reversed copy, where the position counts back from the note's end
+  reversed?: boolean;
+  onAddBookmark?: (positionMs: number, label?: string) => void;
+  onRemoveBookmark?: (bookmarkId: string) => void;
+  onSeek?: (positionMs: number) => void;
+  // queue every note recorded on the same day, starting with this one
+  onPlayDay?: () => void;
+  // title and written text; only the text is edited here for recordings
+  onSaveText?: (title: string, body: string) => void;
 };
 
+function formatClock(ms: number) {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
 export default function NoteItem({
   note,
   playing,
@@ -38,51 +77,94 @@ export default function NoteItem({
   onPause,
   onDelete,
   onRename,
+  onOrganize,
+  allTags = [],
+  allNotebooks = [],
   setPlaybackSpeed,
   currentRate = 1.0,
+  onPlayDay,
+  speeds = [1.0, 1.5, 2.0],
+  onSkip,
+  skipMs = 15000,
+  active = false,
   requestPlay,
+  searchTerms = [],
+  onPlayFrom,
+  onTrim,
+  onSplit,
+  positionMs = 0,
+  reversed = false,
+  onAddBookmark,
+  onRemoveBookmark,
+  onSeek,
+  onSaveText,
 }: NoteItemProps) {
   const [renameVisible, setRenameVisible] = useState(false);
   const [newTitle, setNewTitle] = useState(note.title || "");
   const [speedMenuVisible, setSpeedMenuVisible] = useState(false);
+  const [organizeVisible, setOrganizeVisible] = useState(false);
+  const [editorVisible, setEditorVisible] = useState(false);
+  const [textVisible, setTextVisible] = useState(false);
+  // long written text is cut to a few blocks until tapped
+  const [bodyExpanded, setBodyExpanded] = useState(false);
+  const textEntry = isTextEntry(note);
+  // position captured when the bookmark button was pressed, while the label is typed
+  const [pendingBookmark, setPendingBookmark] = useState<number | null>(null);
+  const [bookmarkLabel, setBookmarkLabel] = useState("");
 
-  // waveform animation values - create N bars
-  const BAR_COUNT = 18;
-  const bars = useRef(Array.from({ length: BAR_COUNT }, () => new Animated.Value(0))).current;
+  // static waveform drawn from the note's stored peaks; flat until they are computed
+  const BAR_COUNT = 32;
+  const bars = useMemo(
+    () =>
+      note.peaks ? resamplePeaks(note.peaks, BAR_COUNT) : new Array<number>(BAR_COUNT).fill(0),
+    [note.peaks]
+  );
 
-  useEffect(() => {
-    // animate bars while playing or idle (subtle)
-    let running = true;
-    function animateLoop() {
-      if (!running) return;
-      const anims = bars.map((v) =>
-        Animated.timing(v, {
-          toValue: playing ? 0.2 + Math.random() * 0.8 : 0.05 + Math.random() * 0.15,
-          duration: 300 + Math.random() * 500,
-          useNativeDriver: false,
-          easing: Easing.ease,
-        })
-      );
-      Animated.parallel(anims).start(() => {
-        if (running) animateLoop();
-      });
-    }
-    animateLoop();
-    return () => {
-      running = false;
-    };
-  }, [playing, bars]);
+  const segments = useMemo(
+    () => matchingSegments(note.transcript, searchTerms).slice(0, 3),
+    [note.transcript, searchTerms]
+  );
+
+  // tap or drag on the progress bar to seek; while dragging the bar follows the finger
+  const [scrub, setScrub] = useState<number | null>(null);
+  const seekState = useRef({ width: 1, duration: 0, onSeek });
+  seekState.current = { ...seekState.current, duration: note.duration || 0, onSeek };
+  const seekResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => seekState.current.duration > 0,
+      onMoveShouldSetPanResponder: () => seekState.current.duration > 0,
+      onPanResponderGrant: (e) => setScrub(fractionAt(e.nativeEvent.locationX)),
+      onPanResponderMove: (e) => setScrub(fractionAt(e.nativeEvent.locationX)),
+      onPanResponderRelease: (e) => {
+        const { duration, onSeek: seek } = seekState.current;
+        const f = fractionAt(e.nativeEvent.locationX);
+        setScrub(null);
+        if (seek) seek(f * duration);
+      },
+      onPanResponderTerminate: () => setScrub(null),
+    })
+  ).current;
+
+  function fractionAt(x: number) {
+    return Math.max(0, Math.min(1, x / seekState.current.width));
+  }
+
+  function onTrackLayout(e: LayoutChangeEvent) {
+    seekState.current.width = Math.max(1, e.nativeEvent.layout.width);
+  }
+
+  const shownProgress = scrub !== null ? scrub : progress;
 
   // progress bar animated width
   const progAnim = useRef(new Animated.Value(progress)).current;
   useEffect(() => {
     Animated.timing(progAnim, {
-      toValue: progress,
+      toValue: shownProgress,
       duration: 200,
       useNativeDriver: false,
       easing: Easing.linear,
     }).start();
-  }, [progress, progAnim]);
+  }, [shownProgress, progAnim]);
 
   // play/pause toggle handler
   const handlePlayPause = async () => {
@@ -108,68 +190,220 @@ export default function NoteItem({
         <View style={styles.card}>
           <View style={{ flex: 1 }}>
             <Text style={styles.title}>{note.title}</Text>
-            <Text style={styles.meta}>
-              {new Date(note.createdAt).toLocaleString()} -{" "}
-              {Math.round((note.duration || 0) / 1000)}s
-            </Text>
-
-            {/* progress bar */}
-            <View style={styles.progressContainer}>
-              <Animated.View
-                style={[
-                  styles.progressFill,
-                  {
-                    width: progAnim.interpolate({
-                      inputRange: [0, 1],
-                      outputRange: ["0%", "100%"],
-                    }),
-                  },
-                ]}
-              />
+            <View style={styles.metaRow}>
+              <Text style={styles.meta}>
+                {new Date(note.createdAt).toLocaleString()} -{" "}
+                {textEntry ? "Text" : `${Math.round((note.duration || 0) / 1000)}s`}
+              </Text>
+              {onPlayDay && (
+                <TouchableOpacity onPress={onPlayDay} style={{ marginLeft: 8 }}>
+                  <Ionicons name="albums-outline" size={14} color="#9aa0a6" />
+                </TouchableOpacity>
+              )}
             </View>
 
-            {/* waveform (simple animated bars) */}
-            <View style={styles.waveRow}>
-              {bars.map((v, i) => (
-                <Animated.View
-                  key={i}
-                  style={{
-                    width: 4,
-                    height: v.interpolate({ inputRange: [0, 1], outputRange: [6, 40] }),
-                    marginRight: 4,
-                    backgroundColor: i % 2 === 0 ? "#3fb0ff" : "#79d1ff",
-                    borderRadius: 2,
-                    opacity: 0.95,
-                  }}
-                />
-              ))}
-            </View>
-          </View>
+            {(note.notebook || (note.tags && note.tags.length > 0)) && (
+              <View style={styles.chipRow}>
+                {note.notebook && (
+                  <View style={styles.chip}>
+                    <Ionicons name="folder" size={11} color="#9aa0a6" style={{ marginRight: 3 }} />
+                    <Text style={styles.chipText}>{note.notebook}</Text>
+                  </View>
+                )}
+                {(note.tags || []).map((t) => (
+                  <View key={t} style={styles.chip}>
+                    <Text style={styles.chipText}>#{t}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
 
-          <View style={styles.controls}>
-            <TouchableOpacity onPress={handlePlayPause} style={{ marginRight: 10 }}>
-              <Ionicons name={playing ? "pause-circle" : "play-circle"} size={36} color="#e6eef8" />
-            </TouchableOpacity>
+            {!!note.body && (
+              <TouchableOpacity
+                activeOpacity={0.8}
+                onPress={() => setBodyExpanded(!bodyExpanded)}
+                style={styles.body}
+              >
+                <RichText body={note.body} maxBlocks={bodyExpanded ? undefined : 3} />
+              </TouchableOpacity>
+            )}
 
-            <TouchableOpacity onPress={() => setRenameVisible(true)} style={{ marginRight: 10 }}>
-              <Ionicons name="pencil" size={22} color="#6fa7ff" />
-            </TouchableOpacity>
+            {/* transcript segments matching the search; tap to play from there */}
+            {segments.map((seg) => (
+              <TouchableOpacity
+                key={seg.startMs}
+                style={styles.segmentRow}
+                onPress={() => onPlayFrom && onPlayFrom(seg.startMs)}
+              >
+                <Text style={styles.segmentTime}>{formatClock(seg.startMs)}</Text>
+                <Text style={styles.segmentText} numberOfLines={1}>
+                  {seg.text}
+                </Text>
+              </TouchableOpacity>
+            ))}
 
-            <TouchableOpacity onPress={handleReverse} style={{ marginRight: 10 }}>
-              <Ionicons name="swap-vertical" size={22} color="#ffd166" />
-            </TouchableOpacity>
+            {!textEntry && (
+              <>
+                {/* progress bar */}
+                <View
+                  style={styles.progressTrack}
+                  onLayout={onTrackLayout}
+                  {...seekResponder.panHandlers}
+                >
+                  <View style={styles.progressContainer}>
+                    <Animated.View
+                      style={[
+                        styles.progressFill,
+                        {
+                          width: progAnim.interpolate({
+                            inputRange: [0, 1],
+                            outputRange: ["0%", "100%"],
+                          }),
+                        },
+                      ]}
+                    />
+                  </View>
 
-            <TouchableOpacity onPress={() => setSpeedMenuVisible((s) => !s)}>
-              <Text style={{ color: "#bfe0ff", fontWeight: "700" }}>{currentRate}x</Text>
-            </TouchableOpacity>
+                  {/* bookmark ticks: tap to jump there, long-press to remove */}
+                  {note.duration > 0 &&
+                    (note.bookmarks || []).map((b) => (
+                      <TouchableOpacity
+                        key={b.id}
+                        hitSlop={{ top: 10, bottom: 10, left: 6, right: 6 }}
+                        onPress={() => onSeek && onSeek(b.positionMs)}
+                        onLongPress={() =>
+                          Alert.alert("Remove bookmark", b.label || formatClock(b.positionMs), [
+                            { text: "Cancel", style: "cancel" },
+                            {
+                              text: "Remove",
+                              style: "destructive",
+                              onPress: () => onRemoveBookmark && onRemoveBookmark(b.id),
+                            },
+                          ])
+                        }
+                        style={[
+                          styles.bookmarkTick,
+                          { left: `${Math.min(100, (b.positionMs / note.duration) * 100)}%` },
+                        ]}
+                      />
+                    ))}
+                </View>
+
+                {/* waveform, with the part already played highlighted */}
+                <View style={styles.waveRow}>
+                  {bars.map((v, i) => (
+                    <View
+                      key={i}
+                      style={[
+                        styles.waveBar,
+                        {
+                          height: 6 + v * 34,
+                          backgroundColor:
+                            (i + 0.5) / BAR_COUNT <= shownProgress ? "#3fb0ff" : "#2a3b4d",
+                        },
+                      ]}
+                    />
+                  ))}
+                </View>
+
+                {/* skip controls while this note is loaded */}
+                {active && (
+                  <View style={styles.skipRow}>
+                    <TouchableOpacity
+                      onPress={() => onSkip && onSkip(-skipMs)}
+                      style={styles.skipBtn}
+                    >
+                      <Ionicons name="play-back" size={16} color="#bfe0ff" />
+                      <Text style={styles.skipText}>{skipMs / 1000}s</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.skipPosition}>
+                      {formatClock(scrub !== null ? scrub * (note.duration || 0) : positionMs)} /{" "}
+                      {formatClock(note.duration || 0)}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() => onSkip && onSkip(skipMs)}
+                      style={styles.skipBtn}
+                    >
+                      <Text style={styles.skipText}>{skipMs / 1000}s</Text>
+                      <Ionicons name="play-forward" size={16} color="#bfe0ff" />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </>
+            )}
           </View>
+
+          {textEntry ? (
+            <View style={styles.controls}>
+              <TouchableOpacity onPress={() => setTextVisible(true)} style={{ marginRight: 10 }}>
+                <Ionicons name="create" size={24} color="#6fa7ff" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => setOrganizeVisible(true)}
+                style={{ marginRight: 10 }}
+              >
+                <Ionicons name="pricetags" size={20} color="#7ee08a" />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.controls}>
+              <TouchableOpacity onPress={handlePlayPause} style={{ marginRight: 10 }}>
+                <Ionicons
+                  name={playing ? "pause-circle" : "play-circle"}
+                  size={36}
+                  color="#e6eef8"
+                />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={() => setRenameVisible(true)} style={{ marginRight: 10 }}>
+                <Ionicons name="pencil" size={22} color="#6fa7ff" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                onPress={() => setOrganizeVisible(true)}
+                style={{ marginRight: 10 }}
+              >
+                <Ionicons name="pricetags" size={20} color="#7ee08a" />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={() => setTextVisible(true)} style={{ marginRight: 10 }}>
+                <Ionicons name="document-text" size={20} color="#bfe0ff" />
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                disabled={!playing}
+                onPress={() => {
+                  setBookmarkLabel("");
+                  setPendingBookmark(
+                    reversed ? Math.max(0, (note.duration || 0) - positionMs) : positionMs
+                  );
+                }}
+                style={{ marginRight: 10, opacity: playing ? 1 : 0.35 }}
+              >
+                <Ionicons name="bookmark" size={20} color="#c792ea" />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={() => setEditorVisible(true)} style={{ marginRight: 10 }}>
+                <Ionicons name="cut" size={20} color="#ff9f43" />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={handleReverse} style={{ marginRight: 10 }}>
+                <Ionicons name="swap-vertical" size={22} color="#ffd166" />
+              </TouchableOpacity>
+
+              <TouchableOpacity onPress={() => setSpeedMenuVisible((s) => !s)}>
+                <Text style={{ color: "#bfe0ff", fontWeight: "700" }}>{currentRate}x</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </View>
       </Pressable>
 
       {/* speed menu */}
       {speedMenuVisible && (
         <View style={styles.speedMenu}>
-          {[1.0, 1.5, 2.0].map((r) => (
+          {speeds.map((r) => (
             <TouchableOpacity
               key={r}
               onPress={() => {
@@ -219,6 +453,67 @@ export default function NoteItem({
           </View>
         </View>
       </Modal>
+
+      {/* bookmark label modal */}
+      <Modal visible={pendingBookmark !== null} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalBox}>
+            <Text style={styles.modalTitle}>Bookmark at {formatClock(pendingBookmark || 0)}</Text>
+            <TextInput
+              value={bookmarkLabel}
+              onChangeText={setBookmarkLabel}
+              style={styles.renameInput}
+              placeholder="Label (optional)"
+              placeholderTextColor="#777"
+            />
+            <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+              <TouchableOpacity onPress={() => setPendingBookmark(null)}>
+                <Text style={{ color: "#aaa" }}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => {
+                  if (onAddBookmark && pendingBookmark !== null) {
+                    onAddBookmark(pendingBookmark, bookmarkLabel.trim() || undefined);
+                  }
+                  setPendingBookmark(null);
+                }}
+              >
+                <Text style={{ color: "#2D8BFF" }}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <OrganizeModal
+        visible={organizeVisible}
+        tags={note.tags || []}
+        notebook={note.notebook}
+        allTags={allTags}
+        allNotebooks={allNotebooks}
+        onSave={(tags, notebook) => onOrganize && onOrganize(tags, notebook)}
+        onClose={() => setOrganizeVisible(false)}
+      />
+
+      <TextEntryModal
+        visible={textVisible}
+        withTitle={textEntry}
+        initialTitle={note.title}
+        initialBody={note.body || ""}
+        onSave={(title, body) => onSaveText && onSaveText(title, body)}
+        onClose={() => setTextVisible(false)}
+      />
+
+      {!textEntry && (
+        <EditorModal
+          visible={editorVisible}
+          note={note}
+          initialPlayheadMs={playing ? progress * (note.duration || 0) : 0}
+          onTrim={async (inMs, outMs) => onTrim && (await onTrim(inMs, outMs))}
+          onSplit={async (atMs, inMs, outMs) => onSplit && (await onSplit(atMs, inMs, outMs))}
+          onClose={() => setEditorVisible(false)}
+        />
+      )}
     </>
   );
 }
@@ -235,10 +530,38 @@ const styles = StyleSheet.create({
     borderColor: "#202227",
   },
   title: { color: "#fff", fontSize: 16, fontWeight: "700" },
+  metaRow: { flexDirection: "row", alignItems: "center" },
   meta: { color: "#9aa0a6", marginTop: 6, marginBottom: 8 },
 
+  chipRow: { flexDirection: "row", flexWrap: "wrap", marginBottom: 4 },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1a1c22",
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginRight: 6,
+    marginBottom: 4,
+  },
+  chipText: { color: "#b8c4d2", fontSize: 12 },
+
+  segmentRow: { flexDirection: "row", alignItems: "center", paddingVertical: 3 },
+  segmentTime: { color: "#2D8BFF", fontSize: 12, fontWeight: "700", width: 40 },
+  segmentText: { color: "#c8d0da", fontSize: 13, flex: 1 },
+
   controls: { alignItems: "center", marginLeft: 10 },
 
+  progressTrack: { justifyContent: "center" },
+  bookmarkTick: {
+    position: "absolute",
+    top: 6,
+    width: 3,
+    height: 12,
+    marginLeft: -1,
+    borderRadius: 1,
+    backgroundColor: "#c792ea",
+  },
   progressContainer: {
     height: 4,
     backgroundColor: "#17181A",
@@ -249,7 +572,18 @@ const styles = StyleSheet.create({
   },
   progressFill: { height: 4, backgroundColor: "#2D8BFF", width: "0%" },
 
-  waveRow: { flexDirection: "row", alignItems: "flex-end", marginTop: 6 },
+  waveRow: { flexDirection: "row", alignItems: "flex-end", marginTop: 6, height: 40 },
+  waveBar: { width: 3, marginRight: 2, borderRadius: 2, opacity: 0.95 },
+
+  skipRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+  },
+  skipBtn: { flexDirection: "row", alignItems: "center", paddingVertical: 4, paddingHorizontal: 6 },
+  skipText: { color: "#bfe0ff", fontSize: 12, marginHorizontal: 3 },
+  skipPosition: { color: "#9aa0a6", fontSize: 12, fontVariant: ["tabular-nums"] },
 
   modalOverlay: {
     flex: 1,
@@ -287,4 +621,6 @@ const styles = StyleSheet.create({
     borderColor: "#222",
   },
   speedRow: { paddingHorizontal: 14, paddingVertical: 8 },
+
+  body: { marginBottom: 6 },
 });
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { parseTagInput } from "../lib/tags";
+
+type OrganizeModalProps = {
+  visible: boolean;
+  tags: string[];
+  notebook?: string;
+  // existing values across all notes, offered as suggestions
+  allTags: string[];
+  allNotebooks: string[];
+  onSave: (tags: string[], notebook?: string) => void;
+  onClose: () => void;
+};
+
+export default function OrganizeModal({
+  visible,
+  tags,
+  notebook,
+  allTags,
+  allNotebooks,
+  onSave,
+  onClose,
+}: OrganizeModalProps) {
+  const [selected, setSelected] = useState<string[]>(tags);
+  const [tagInput, setTagInput] = useState("");
+  const [book, setBook] = useState(notebook || "");
+
+  useEffect(() => {
+    if (visible) {
+      setSelected(tags);
+      setTagInput("");
+      setBook(notebook || "");
+    }
+  }, [visible]);
+
+  function addTyped() {
+    const typed = parseTagInput(tagInput);
+    if (typed.length === 0) return;
+    setSelected((s) => [...s, ...typed.filter((t) => !s.includes(t))]);
+    setTagInput("");
+  }
+
+  const suggestions = allTags.filter((t) => !selected.includes(t));
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.box}>
+          <Text style={styles.title}>Tags & notebook</Text>
+
+          <View style={styles.chipRow}>
+            {selected.map((t) => (
+              <TouchableOpacity
+                key={t}
+                style={[styles.chip, styles.chipActive]}
+                onPress={() => setSelected((s) => s.filter((x) => x !== t))}
+              >
+                <Text style={styles.chipText}>#{t}</Text>
+                <Ionicons name="close" size={12} color="#fff" style={{ marginLeft: 4 }} />
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            value={tagInput}
+            onChangeText={setTagInput}
+            onSubmitEditing={addTyped}
+            onBlur={addTyped}
+            placeholder="Add tags (comma separated)"
+            placeholderTextColor="#777"
+            style={styles.input}
+            autoCapitalize="none"
+          />
+          {suggestions.length > 0 && (
+            <ScrollView horizontal style={{ marginTop: 8 }} showsHorizontalScrollIndicator={false}>
+              {suggestions.map((t) => (
+                <TouchableOpacity
+                  key={t}
+                  style={styles.chip}
+                  onPress={() => setSelected((s) => [...s, t])}
+                >
+                  <Text style={styles.chipMuted}>#{t}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <Text style={styles.section}>Notebook</Text>
+          <TextInput
+            value={book}
+            onChangeText={setBook}
+            placeholder="No notebook"
+            placeholderTextColor="#777"
+            style={styles.input}
+          />
+          {allNotebooks.length > 0 && (
+            <ScrollView horizontal style={{ marginTop: 8 }} showsHorizontalScrollIndicator={false}>
+              {allNotebooks.map((b) => (
+                <TouchableOpacity
+                  key={b}
+                  style={[styles.chip, book === b && styles.chipActive]}
+                  onPress={() => setBook(book === b ? "" : b)}
+                >
+                  <Text style={book === b ? styles.chipText : styles.chipMuted}>{b}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          )}
+
+          <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={{ color: "#aaa" }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => {
+                const typed = parseTagInput(tagInput);
+                onSave(
+                  [...selected, ...typed.filter((t) => !selected.includes(t))],
+                  book.trim() || undefined
+                );
+                onClose();
+              }}
+            >
+              <Text style={{ color: "#2D8BFF" }}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "86%",
+    backgroundColor: "#0f1113",
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  title: { color: "#fff", fontSize: 17, fontWeight: "700" },
+  section: { color: "#9aa0a6", marginTop: 16, fontWeight: "600" },
+  input: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#16171A",
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  chipRow: { flexDirection: "row", flexWrap: "wrap", marginTop: 6 },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+  chipMuted: { color: "#9aa0a6", fontSize: 12 },
+});
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Modal, View, Text, TextInput, TouchableOpacity, StyleSheet } from "react-native";
+import { MIN_PASSCODE_LENGTH } from "../lib/passcode";
+
+export type PasscodeMode = "set" | "change" | "remove" | "backup";
+
+type PasscodeModalProps = {
+  visible: boolean;
+  mode: PasscodeMode;
+  // throws to show the message in the modal; resolves to close it
+  onSubmit: (current: string, next: string) => Promise<void>;
+  onClose: () => void;
+};
+
+const TITLES: Record<PasscodeMode, string> = {
+  set: "Set a passcode",
+  change: "Change passcode",
+  remove: "Turn off passcode",
+  backup: "Passcode of this backup",
+};
+
+const HINTS: Record<PasscodeMode, string> = {
+  set: "Notes and audio will be encrypted. There is no way to recover a forgotten passcode.",
+  change: "Everything is re-encrypted with the new passcode. Keep the app open until it is done.",
+  remove: "Notes and audio will be stored unencrypted.",
+  backup: "This backup was made while a different passcode was set.",
+};
+
+// Passcode entry for setting, changing and removing the lock, and for opening a backup.
+export default function PasscodeModal({ visible, mode, onSubmit, onClose }: PasscodeModalProps) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrent("");
+      setNext("");
+      setConfirm("");
+      setError(null);
+      setBusy(false);
+    }
+  }, [visible]);
+
+  const asksCurrent = mode !== "set";
+  const asksNext = mode === "set" || mode === "change";
+
+  async function submit() {
+    if (asksNext && next.length < MIN_PASSCODE_LENGTH) {
+      setError(`Use at least ${MIN_PASSCODE_LENGTH} characters.`);
+      return;
+    }
+    if (asksNext && next !== confirm) {
+      setError("The passcodes do not match.");
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      // let the busy state render before key derivation blocks the JS thread
+      await new Promise((r) => setTimeout(r, 50));
+      await onSubmit(current, next);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const field = (value: string, onChange: (v: string) => void, placeholder: string) => (
+    <TextInput
+      value={value}
+      onChangeText={onChange}
+      placeholder={placeholder}
+      placeholderTextColor="#777"
+      style={styles.input}
+      secureTextEntry
+      autoCapitalize="none"
+      autoCorrect={false}
+      editable={!busy}
+    />
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.box}>
+          <Text style={styles.title}>{TITLES[mode]}</Text>
+          <Text style={styles.hint}>{HINTS[mode]}</Text>
+
+          {asksCurrent &&
+            field(current, setCurrent, mode === "backup" ? "Passcode" : "Current passcode")}
+          {asksNext && field(next, setNext, "New passcode")}
+          {asksNext && field(confirm, setConfirm, "Repeat new passcode")}
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+            <TouchableOpacity onPress={onClose} disabled={busy}>
+              <Text style={{ color: "#aaa" }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={submit} disabled={busy}>
+              <Text style={{ color: busy ? "#555" : "#2D8BFF" }}>{busy ? "Working..." : "OK"}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "86%",
+    backgroundColor: "#0f1113",
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  title: { color: "#fff", fontSize: 17, fontWeight: "700" },
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 6 },
+  input: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#16171A",
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  error: { color: "#ff6b6b", fontSize: 12, marginTop: 10 },
+});
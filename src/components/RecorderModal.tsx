@@ -1,45 +1,151 @@
 import React, { useState, useEffect, useRef } from "react";
-import { View, Text, Modal, TouchableOpacity, StyleSheet, Animated } from "react-native";
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  StyleSheet,
+  Animated,
+  TextInput,
+  Platform,
+  Alert,
+} from "react-native";
 import { Audio } from "expo-av";
-import type { RecordingStatus } from "expo-av";
+import * as FileSystem from "expo-file-system";
 import { Ionicons } from "@expo/vector-icons";
+import { joinSegments } from "../lib/audioFile";
+import {
+  formatForUri,
+  presetIds,
+  presetLabel,
+  resolveQuality,
+  supportsNativePause,
+  toRecordingOptions,
+} from "../lib/recordingSettings";
+import type { RecordingPresetId, RecordingSettings } from "../lib/recordingSettings";
+import { CLIP_DB, autoStopReason, meterLevel, silenceSince } from "../lib/levelMeter";
+import type { AutoStopReason } from "../lib/levelMeter";
+import type { RecordingFormat } from "../types";
+import { logError } from "../lib/diagnostics";
 
 type RecorderModalProps = {
   visible: boolean;
   onClose: () => void;
-  onSave: (uri: string, duration: number, title?: string) => void;
+  onSave: (uri: string, duration: number, title?: string, format?: RecordingFormat) => void;
+  // the default quality; a take can pick another preset before it starts
+  settings: RecordingSettings;
 };
 
-export default function RecorderModal({ visible, onClose, onSave }: RecorderModalProps) {
+type Phase = "idle" | "recording" | "paused";
+
+type Segment = { uri: string; duration: number };
+
+// how long the clipping warning stays up after the last clipped reading
+const CLIP_HOLD_MS = 1500;
+
+function formatElapsed(ms: number) {
+  const total = Math.floor(ms / 1000);
+  const m = Math.floor(total / 60);
+  return `${String(m).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}`;
+}
+
+export default function RecorderModal({ visible, onClose, onSave, settings }: RecorderModalProps) {
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
-  const [isRecording, setIsRecording] = useState(false);
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [elapsed, setElapsed] = useState(0);
+  const [title, setTitle] = useState("");
+  const [preset, setPreset] = useState<RecordingPresetId>(settings.preset);
+  // latest input level in dBFS, null when the recorder doesn't report one
+  const [inputDb, setInputDb] = useState<number | null>(null);
+  const [clippedAt, setClippedAt] = useState<number | null>(null);
+  const [autoStop, setAutoStop] = useState<AutoStopReason | null>(null);
   const waveAnim = useRef(new Animated.Value(1)).current;
   const waveAnim2 = useRef(new Animated.Value(1)).current;
 
+  // Where the recorder can't pause (see lib/recordingSettings), "pause" ends a segment
+  // and "resume" records the next one; the segments are joined into one file at the end.
+  const segmented = useRef(false);
+  const segments = useRef<Segment[]>([]);
+  const recorderMillis = useRef(0);
+  // status updates are bound when the take starts, so they read the phase from here
+  const live = useRef(false);
+  const silentSince = useRef<number | null>(null);
+  const stopping = useRef(false);
+
+  const isRecording = phase === "recording";
+
   useEffect(() => {
-    if (isRecording) startWaveAnimation();
-    else stopWaveAnimation();
+    live.current = isRecording;
+    silentSince.current = null;
+    if (!isRecording) resetWaves();
   }, [isRecording]);
 
-  function startWaveAnimation() {
-    Animated.loop(
-      Animated.sequence([
-        Animated.timing(waveAnim, { toValue: 1.6, duration: 500, useNativeDriver: true }),
-        Animated.timing(waveAnim, { toValue: 1, duration: 500, useNativeDriver: true }),
-      ])
-    ).start();
-
-    Animated.loop(
-      Animated.sequence([
-        Animated.timing(waveAnim2, { toValue: 1.4, duration: 600, useNativeDriver: true }),
-        Animated.timing(waveAnim2, { toValue: 1, duration: 600, useNativeDriver: true }),
-      ])
-    ).start();
+  // auto-stop goes through the same path as the stop button
+  useEffect(() => {
+    if (autoStop) stopRecording();
+  }, [autoStop]);
+
+  useEffect(() => {
+    if (!visible) setTitle("");
+    else setPreset(settings.preset);
+  }, [visible]);
+
+  // circles grow with the input level
+  function animateWaves(level: number) {
+    Animated.parallel([
+      Animated.timing(waveAnim, { toValue: 1 + level * 0.6, duration: 90, useNativeDriver: true }),
+      Animated.timing(waveAnim2, { toValue: 1 + level * 0.4, duration: 90, useNativeDriver: true }),
+    ]).start();
   }
 
-  function stopWaveAnimation() {
+  function resetWaves() {
     waveAnim.stopAnimation();
     waveAnim2.stopAnimation();
+    waveAnim.setValue(1);
+    waveAnim2.setValue(1);
+  }
+
+  function segmentsMillis() {
+    return segments.current.reduce((sum, s) => sum + s.duration, 0);
+  }
+
+  function onStatus(status: Audio.RecordingStatus) {
+    if (typeof status.durationMillis !== "number") return;
+    recorderMillis.current = status.durationMillis;
+    const active = segmentsMillis() + status.durationMillis;
+    setElapsed(active);
+    if (!live.current) return;
+
+    const db = status.metering;
+    if (typeof db === "number") {
+      setInputDb(db);
+      animateWaves(meterLevel(db));
+      if (db >= CLIP_DB) setClippedAt(active);
+    }
+    silentSince.current = silenceSince(silentSince.current, db, active);
+    const reason = autoStopReason(active, silentSince.current, settings);
+    if (reason) setAutoStop(reason);
+  }
+
+  function resetTake() {
+    setRecording(null);
+    setPhase("idle");
+    setElapsed(0);
+    segments.current = [];
+    recorderMillis.current = 0;
+    silentSince.current = null;
+    stopping.current = false;
+    setInputDb(null);
+    setClippedAt(null);
+    setAutoStop(null);
+  }
+
+  function createRecorder() {
+    return Audio.Recording.createAsync(
+      toRecordingOptions(resolveQuality(settings, Platform.OS, preset), segmented.current),
+      onStatus,
+      100
+    );
   }
 
   async function startRecording() {
@@ -47,49 +153,204 @@ export default function RecorderModal({ visible, onClose, onSave }: RecorderModa
       await Audio.requestPermissionsAsync();
       await Audio.setAudioModeAsync({ allowsRecordingIOS: true });
 
-      const { recording } = await Audio.Recording.createAsync(
-        Audio.RecordingOptionsPresets.HIGH_QUALITY
-      );
+      segmented.current = !supportsNativePause(Platform.OS, Platform.Version);
+      const { recording } = await createRecorder();
 
       setRecording(recording);
-      setIsRecording(true);
+      setPhase("recording");
     } catch (err) {
-      console.error("Recording failed", err);
+      logError("Recording failed", err);
     }
   }
 
-  async function stopRecording() {
+  async function pauseRecording() {
     if (!recording) return;
+    try {
+      if (segmented.current) {
+        await closeSegment(recording);
+      } else {
+        await recording.pauseAsync();
+      }
+      setPhase("paused");
+    } catch (e) {
+      logError("pause recording err", e);
+      Alert.alert("Pause failed", e instanceof Error ? e.message : String(e));
+    }
+  }
 
-    setIsRecording(false);
-    await recording.stopAndUnloadAsync();
-
-    const uri = recording.getURI();
-    const status = (await recording.getStatusAsync()) as RecordingStatus;
-    const duration = typeof status.durationMillis === "number" ? status.durationMillis : 0;
+  async function resumeRecording() {
+    try {
+      if (segmented.current) {
+        const { recording } = await createRecorder();
+        setRecording(recording);
+      } else {
+        if (!recording) return;
+        await recording.startAsync();
+      }
+      setPhase("recording");
+    } catch (e) {
+      logError("resume recording err", e);
+      Alert.alert("Resume failed", e instanceof Error ? e.message : String(e));
+    }
+  }
 
+  // stops the recorder and adds what it recorded to the take's segments
+  async function closeSegment(current: Audio.Recording) {
+    current.setOnRecordingStatusUpdate(null);
+    await current.stopAndUnloadAsync();
+    setRecording(null);
+    const uri = current.getURI();
+    // without a final status the last reported length stands in
+    const status = await current.getStatusAsync().catch(() => null);
     if (uri) {
-      onSave(uri, duration);
+      const duration =
+        status && typeof status.durationMillis === "number"
+          ? status.durationMillis
+          : recorderMillis.current;
+      segments.current.push({ uri, duration });
+    }
+  }
+
+  // Stops the take and returns its segments. They are kept until the take is reset, so
+  // a stop that fails later on (e.g. joining) can be retried without losing audio.
+  async function endTake(): Promise<Segment[]> {
+    live.current = false;
+    resetWaves();
+    if (recording) await closeSegment(recording);
+    return segments.current;
+  }
+
+  async function stopRecording() {
+    if (phase === "idle" || stopping.current) return;
+    stopping.current = true;
+    try {
+      const parts = await endTake();
+      if (parts.length > 0) {
+        const uri = parts.length > 1 ? await joinSegments(parts.map((p) => p.uri)) : parts[0].uri;
+        const quality = resolveQuality(settings, Platform.OS, preset);
+        onSave(uri, segmentsMillis(), title, formatForUri(uri, quality, preset));
+      }
+      resetTake();
+      onClose();
+    } catch (e) {
+      logError("stop recording err", e);
+      Alert.alert("Saving failed", e instanceof Error ? e.message : String(e));
+    } finally {
+      stopping.current = false;
+    }
+  }
+
+  async function discardTake() {
+    if (phase === "idle") return;
+    try {
+      const parts = await endTake();
+      for (const part of parts) await FileSystem.deleteAsync(part.uri, { idempotent: true });
+    } catch (e) {
+      logError("discard take err", e);
     }
+    resetTake();
+  }
+
+  async function discardAndRestart() {
+    await discardTake();
+    await startRecording();
+  }
+
+  async function cancel() {
+    await discardTake();
     onClose();
   }
 
+  const heading =
+    phase === "idle" ? "New Recording" : phase === "paused" ? "Paused" : "Recording...";
+  const clipping = clippedAt !== null && elapsed - clippedAt < CLIP_HOLD_MS;
+  const level = inputDb !== null ? meterLevel(inputDb) : 0;
+  const limits = [
+    settings.silenceStopSec > 0 ? `stops after ${settings.silenceStopSec}s of silence` : "",
+    settings.maxDurationMin > 0 ? `max ${settings.maxDurationMin} min` : "",
+  ].filter(Boolean);
+
   return (
-    <Modal visible={visible} transparent animationType="slide">
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={cancel}>
       <View style={styles.modalContainer}>
-        <Text style={styles.title}>Recording...</Text>
+        <Text style={styles.title}>{heading}</Text>
+
+        <TextInput
+          value={title}
+          onChangeText={setTitle}
+          placeholder="Title (optional)"
+          placeholderTextColor="#777"
+          style={styles.titleInput}
+        />
+
+        {phase === "idle" && (
+          <View style={styles.presetRow}>
+            {presetIds(Platform.OS).map((id) => (
+              <TouchableOpacity
+                key={id}
+                style={[styles.preset, id === preset && styles.presetActive]}
+                onPress={() => setPreset(id)}
+              >
+                <Text style={styles.presetText}>{presetLabel(id)}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
 
         {/* Animated sound waves */}
         <View style={styles.waveContainer}>
           <Animated.View style={[styles.wave, { transform: [{ scale: waveAnim }] }]} />
           <Animated.View style={[styles.waveSecondary, { transform: [{ scale: waveAnim2 }] }]} />
+          <Text style={styles.timer}>{formatElapsed(elapsed)}</Text>
         </View>
 
-        <TouchableOpacity style={styles.btn} onPress={isRecording ? stopRecording : startRecording}>
-          <Ionicons name={isRecording ? "stop-circle" : "mic"} size={45} color="#fff" />
-        </TouchableOpacity>
+        <View style={styles.meter}>
+          <View
+            style={[
+              styles.meterFill,
+              {
+                width: `${Math.round(level * 100)}%`,
+                backgroundColor: clipping ? "#ff6b6b" : level > 0.8 ? "#ffd166" : "#7ee08a",
+              },
+            ]}
+          />
+        </View>
+        <View style={styles.meterRow}>
+          <Text style={styles.meterText}>
+            {phase !== "idle" && inputDb !== null ? `${Math.round(inputDb)} dB` : " "}
+          </Text>
+          {clipping && <Text style={styles.clipText}>Clipping - move back or speak softer</Text>}
+        </View>
+        {limits.length > 0 && <Text style={styles.limitText}>Auto: {limits.join(", ")}</Text>}
+
+        <View style={styles.controlsRow}>
+          {phase !== "idle" && (
+            <TouchableOpacity style={styles.sideBtn} onPress={discardAndRestart}>
+              <Ionicons name="refresh" size={26} color="#ffd166" />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={styles.btn}
+            onPress={
+              phase === "idle"
+                ? startRecording
+                : phase === "recording"
+                ? pauseRecording
+                : resumeRecording
+            }
+          >
+            <Ionicons name={phase === "recording" ? "pause" : "mic"} size={45} color="#fff" />
+          </TouchableOpacity>
 
-        <TouchableOpacity onPress={onClose} style={{ marginTop: 20 }}>
+          {phase !== "idle" && (
+            <TouchableOpacity style={styles.sideBtn} onPress={stopRecording}>
+              <Ionicons name="checkmark" size={28} color="#7ee08a" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TouchableOpacity onPress={cancel} style={{ marginTop: 20 }}>
           <Text style={{ color: "#ccc" }}>Cancel</Text>
         </TouchableOpacity>
       </View>
@@ -104,7 +365,36 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
-  title: { color: "#fff", fontSize: 28, marginBottom: 40, fontWeight: "bold" },
+  title: { color: "#fff", fontSize: 28, marginBottom: 24, fontWeight: "bold" },
+
+  titleInput: {
+    width: "78%",
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#16171A",
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#222",
+    marginBottom: 24,
+  },
+
+  presetRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    width: "86%",
+    marginTop: -12,
+    marginBottom: 12,
+  },
+  preset: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    margin: 3,
+  },
+  presetActive: { backgroundColor: "#1f3a5f" },
+  presetText: { color: "#fff", fontSize: 12 },
 
   waveContainer: {
     width: 180,
@@ -127,9 +417,31 @@ const styles = StyleSheet.create({
     backgroundColor: "rgba(30,144,255,0.35)",
     position: "absolute",
   },
+  timer: { color: "#fff", fontSize: 26, fontWeight: "700", fontVariant: ["tabular-nums"] },
+
+  meter: {
+    width: "60%",
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#16171A",
+    marginTop: 28,
+    overflow: "hidden",
+  },
+  meterFill: { height: 6, borderRadius: 3 },
+  meterRow: { flexDirection: "row", width: "60%", marginTop: 6 },
+  meterText: { color: "#9aa0a6", fontSize: 12, fontVariant: ["tabular-nums"] },
+  clipText: { color: "#ff6b6b", fontSize: 12, marginLeft: "auto" },
+  limitText: { color: "#9aa0a6", fontSize: 12, marginTop: 6 },
+
+  controlsRow: { flexDirection: "row", alignItems: "center", marginTop: 28 },
+  sideBtn: {
+    backgroundColor: "#1f2230",
+    padding: 14,
+    borderRadius: 40,
+    marginHorizontal: 22,
+  },
 
   btn: {
-    marginTop: 40,
     backgroundColor: "#1890ff",
     padding: 18,
     borderRadius: 50,
@@ -0,0 +1,137 @@
+import React from "react";
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView, Platform } from "react-native";
+import {
+  BIT_RATE_CHOICES,
+  MAX_DURATION_CHOICES,
+  SAMPLE_RATE_CHOICES,
+  SILENCE_STOP_CHOICES,
+  presetIds,
+  presetLabel,
+  resolveQuality,
+  supportsPcm,
+} from "../lib/recordingSettings";
+import type { RecordingQuality, RecordingSettings } from "../lib/recordingSettings";
+
+type RecordingSettingsViewProps = {
+  settings: RecordingSettings;
+  onChange: (settings: RecordingSettings) => void;
+};
+
+function describe(q: RecordingQuality) {
+  const rate = `${q.sampleRate / 1000} kHz`;
+  const channels = q.channels === 1 ? "mono" : "stereo";
+  return q.encoding === "pcm"
+    ? `WAV, ${rate}, ${channels}, 16-bit`
+    : `AAC, ${rate}, ${channels}, ${q.bitRate / 1000} kbps`;
+}
+
+// Recording page of the settings screen: the default preset, the custom quality and the
+// auto-stop limits.
+export default function RecordingSettingsView({ settings, onChange }: RecordingSettingsViewProps) {
+  const { custom } = settings;
+  const setCustom = (change: Partial<RecordingQuality>) =>
+    onChange({ ...settings, custom: { ...custom, ...change } });
+
+  const chips = <T,>(
+    choices: T[],
+    selected: T,
+    label: (value: T) => string,
+    onPress: (value: T) => void
+  ) => (
+    <View style={styles.row}>
+      {choices.map((value) => (
+        <TouchableOpacity
+          key={String(value)}
+          style={[styles.chip, value === selected && styles.chipActive]}
+          onPress={() => onPress(value)}
+        >
+          <Text style={styles.chipText}>{label(value)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.section}>Default quality</Text>
+      {chips(presetIds(Platform.OS), settings.preset, presetLabel, (preset) =>
+        onChange({ ...settings, preset })
+      )}
+      <Text style={styles.hint}>
+        {describe(resolveQuality(settings, Platform.OS))}. Each recording can pick another preset
+        before it starts.
+      </Text>
+
+      {settings.preset === "custom" && (
+        <>
+          <Text style={styles.section}>Format</Text>
+          {chips<RecordingQuality["encoding"]>(
+            supportsPcm(Platform.OS) ? ["aac", "pcm"] : ["aac"],
+            custom.encoding,
+            (e) => (e === "pcm" ? "WAV" : "AAC"),
+            (encoding) => setCustom({ encoding })
+          )}
+          <Text style={styles.section}>Sample rate</Text>
+          {chips(
+            SAMPLE_RATE_CHOICES,
+            custom.sampleRate,
+            (r) => `${r / 1000} kHz`,
+            (sampleRate) => setCustom({ sampleRate })
+          )}
+          <Text style={styles.section}>Channels</Text>
+          {chips<1 | 2>(
+            [1, 2],
+            custom.channels,
+            (c) => (c === 1 ? "Mono" : "Stereo"),
+            (channels) => setCustom({ channels })
+          )}
+          {custom.encoding === "aac" && (
+            <>
+              <Text style={styles.section}>Bitrate</Text>
+              {chips(
+                BIT_RATE_CHOICES,
+                custom.bitRate,
+                (b) => `${b / 1000} kbps`,
+                (bitRate) => setCustom({ bitRate })
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <Text style={styles.section}>Stop after silence</Text>
+      {chips(
+        SILENCE_STOP_CHOICES,
+        settings.silenceStopSec,
+        (sec) => (sec === 0 ? "Off" : `${sec}s`),
+        (silenceStopSec) => onChange({ ...settings, silenceStopSec })
+      )}
+      <Text style={styles.section}>Longest recording</Text>
+      {chips(
+        MAX_DURATION_CHOICES,
+        settings.maxDurationMin,
+        (min) => (min === 0 ? "No limit" : `${min} min`),
+        (maxDurationMin) => onChange({ ...settings, maxDurationMin })
+      )}
+      <Text style={styles.hint}>
+        A recording that stops on its own is saved like one stopped with the check button.
+      </Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { color: "#9aa0a6", marginTop: 20, fontWeight: "600" },
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  row: { flexDirection: "row", flexWrap: "wrap", marginTop: 4 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+});
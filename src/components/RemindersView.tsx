@@ -0,0 +1,181 @@
+import React from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
+import uuid from "react-native-uuid";
+import { DAY_NAMES, EVERY_DAY, describeDays, formatTime } from "../lib/reminderSchedule";
+import type { ReminderSchedule, ReminderSettings } from "../lib/reminderSchedule";
+
+type RemindersViewProps = {
+  settings: ReminderSettings;
+  onChange: (settings: ReminderSettings) => void;
+  // earliest scheduled reminder, null when none is due in the next days
+  nextAt: number | null;
+};
+
+const DAY_MINUTES = 24 * 60;
+
+function shift(minutes: number, by: number) {
+  return (minutes + by + DAY_MINUTES) % DAY_MINUTES;
+}
+
+// Reminders page of the settings screen: the schedules, quiet hours and the skip rule.
+export default function RemindersView({ settings, onChange, nextAt }: RemindersViewProps) {
+  const setSchedule = (id: string, change: Partial<ReminderSchedule>) =>
+    onChange({
+      ...settings,
+      schedules: settings.schedules.map((s) => (s.id === id ? { ...s, ...change } : s)),
+    });
+
+  const addSchedule = () =>
+    onChange({
+      ...settings,
+      schedules: [
+        ...settings.schedules,
+        { id: String(uuid.v4()), label: "", time: 20 * 60, days: EVERY_DAY, enabled: true },
+      ],
+    });
+
+  const removeSchedule = (id: string) =>
+    onChange({ ...settings, schedules: settings.schedules.filter((s) => s.id !== id) });
+
+  const toggle = (on: boolean, onPress: () => void) => (
+    <TouchableOpacity style={[styles.chip, on && styles.chipActive]} onPress={onPress}>
+      <Text style={styles.chipText}>{on ? "On" : "Off"}</Text>
+    </TouchableOpacity>
+  );
+
+  // steps of an hour and of 15 minutes around the time
+  const timePicker = (minutes: number, onPick: (minutes: number) => void) => (
+    <View style={styles.row}>
+      {[-60, -15].map((by) => (
+        <TouchableOpacity key={by} style={styles.chip} onPress={() => onPick(shift(minutes, by))}>
+          <Text style={styles.chipText}>{by === -60 ? "-1h" : "-15m"}</Text>
+        </TouchableOpacity>
+      ))}
+      <Text style={styles.time}>{formatTime(minutes)}</Text>
+      {[15, 60].map((by) => (
+        <TouchableOpacity key={by} style={styles.chip} onPress={() => onPick(shift(minutes, by))}>
+          <Text style={styles.chipText}>{by === 60 ? "+1h" : "+15m"}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.hint}>
+        {nextAt
+          ? `Next reminder ${new Date(nextAt).toLocaleString()}. Tapping it opens the recorder.`
+          : "No reminder in the next days. Tapping a reminder opens the recorder."}
+      </Text>
+
+      {settings.schedules.map((s) => (
+        <View key={s.id} style={styles.card}>
+          <View style={styles.cardHeader}>
+            <TextInput
+              // saved when editing ends, not on every key
+              key={s.label}
+              defaultValue={s.label}
+              onEndEditing={(e) => setSchedule(s.id, { label: e.nativeEvent.text.trim() })}
+              placeholder="Reminder"
+              placeholderTextColor="#7b8086"
+              style={styles.label}
+            />
+            {toggle(s.enabled, () => setSchedule(s.id, { enabled: !s.enabled }))}
+          </View>
+          {timePicker(s.time, (time) => setSchedule(s.id, { time }))}
+          <View style={styles.row}>
+            {DAY_NAMES.map((name, day) => {
+              const on = s.days.includes(day);
+              return (
+                <TouchableOpacity
+                  key={name}
+                  style={[styles.chip, on && styles.chipActive]}
+                  onPress={() =>
+                    setSchedule(s.id, {
+                      days: on
+                        ? s.days.filter((d) => d !== day)
+                        : EVERY_DAY.filter((d) => d === day || s.days.includes(d)),
+                    })
+                  }
+                >
+                  <Text style={styles.chipText}>{name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={[styles.row, { justifyContent: "space-between" }]}>
+            <Text style={styles.hint}>
+              {describeDays(s.days)} at {formatTime(s.time)}
+            </Text>
+            <TouchableOpacity onPress={() => removeSchedule(s.id)} style={{ padding: 4 }}>
+              <Text style={{ color: "#ff6b6b" }}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.button} onPress={addSchedule}>
+        <Text style={styles.buttonText}>Add reminder</Text>
+      </TouchableOpacity>
+
+      <Text style={styles.section}>Skip days with a note</Text>
+      <View style={styles.row}>
+        {toggle(settings.skipIfRecorded, () =>
+          onChange({ ...settings, skipIfRecorded: !settings.skipIfRecorded })
+        )}
+      </View>
+      <Text style={styles.hint}>No reminder once something was recorded that day.</Text>
+
+      <Text style={styles.section}>Quiet hours</Text>
+      <View style={styles.row}>
+        {toggle(settings.quietHours.enabled, () =>
+          onChange({
+            ...settings,
+            quietHours: { ...settings.quietHours, enabled: !settings.quietHours.enabled },
+          })
+        )}
+      </View>
+      {settings.quietHours.enabled && (
+        <>
+          <Text style={styles.hint}>From</Text>
+          {timePicker(settings.quietHours.start, (start) =>
+            onChange({ ...settings, quietHours: { ...settings.quietHours, start } })
+          )}
+          <Text style={styles.hint}>Until</Text>
+          {timePicker(settings.quietHours.end, (end) =>
+            onChange({ ...settings, quietHours: { ...settings.quietHours, end } })
+          )}
+        </>
+      )}
+      <Text style={styles.hint}>Reminders that fall in quiet hours are not shown.</Text>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { color: "#9aa0a6", marginTop: 20, fontWeight: "600" },
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  row: { flexDirection: "row", flexWrap: "wrap", alignItems: "center", marginTop: 4 },
+  card: { backgroundColor: "#15171c", borderRadius: 10, padding: 12, marginTop: 12 },
+  cardHeader: { flexDirection: "row", alignItems: "center" },
+  label: { flex: 1, color: "#fff", fontWeight: "600", paddingVertical: 4 },
+  time: { color: "#fff", fontSize: 18, fontWeight: "700", marginHorizontal: 8, marginTop: 6 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+  button: {
+    marginTop: 16,
+    backgroundColor: "#1f2230",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonText: { color: "#fff", fontWeight: "600" },
+});
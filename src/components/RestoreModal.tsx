@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
+import { MERGE_POLICIES } from "../lib/merge";
+import type { MergeItem, MergePlan, MergePolicy } from "../lib/merge";
+
+type RestoreModalProps = {
+  visible: boolean;
+  // builds the merge plan for a policy; nothing is written until onConfirm
+  preview: (policy: MergePolicy) => MergePlan | null;
+  corruptCount?: number;
+  onConfirm: (policy: MergePolicy) => void;
+  onClose: () => void;
+};
+
+function describe(item: MergeItem) {
+  switch (item.action) {
+    case "add":
+      return item.note.id === item.imported.id ? "new" : "new copy";
+    case "update":
+      return "update";
+    case "skip":
+      return item.reason === "identical" ? "already here" : "skip";
+  }
+}
+
+const ACTION_COLORS: Record<MergeItem["action"], string> = {
+  add: "#7ee08a",
+  update: "#ffd166",
+  skip: "#8a8f95",
+};
+
+export default function RestoreModal({
+  visible,
+  preview,
+  corruptCount = 0,
+  onConfirm,
+  onClose,
+}: RestoreModalProps) {
+  const [policy, setPolicy] = useState<MergePolicy>("keepNewest");
+
+  useEffect(() => {
+    if (visible) setPolicy("keepNewest");
+  }, [visible]);
+
+  const plan = useMemo(() => (visible ? preview(policy) : null), [visible, policy, preview]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.box}>
+          <Text style={styles.title}>Restore backup</Text>
+          <Text style={styles.subtitle}>When a note already exists on this device:</Text>
+
+          <View style={styles.policyRow}>
+            {MERGE_POLICIES.map((p) => (
+              <TouchableOpacity
+                key={p.key}
+                onPress={() => setPolicy(p.key)}
+                style={[styles.policyChip, policy === p.key && styles.policyChipActive]}
+              >
+                <Text style={{ color: policy === p.key ? "#fff" : "#9aa0a6", fontSize: 13 }}>
+                  {p.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {plan && (
+            <>
+              <Text style={styles.counts}>
+                {plan.counts.add} to add - {plan.counts.update} to update - {plan.counts.skip} to
+                skip
+              </Text>
+              {corruptCount > 0 && (
+                <Text style={{ color: "#ff6b6b", marginTop: 4 }}>
+                  {corruptCount} corrupt audio entries will be ignored.
+                </Text>
+              )}
+              <ScrollView style={styles.list}>
+                {plan.items.map((item, i) => (
+                  <View key={i} style={styles.itemRow}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {item.imported.title}
+                    </Text>
+                    <Text style={{ color: ACTION_COLORS[item.action], fontSize: 12 }}>
+                      {describe(item)}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={{ color: "#aaa" }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => onConfirm(policy)}>
+              <Text style={{ color: "#2D8BFF" }}>Restore</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "92%",
+    backgroundColor: "#0f1113",
+    padding: 18,
+    borderRadius: 12,
+    borderColor: "#222",
+    borderWidth: 1,
+  },
+  title: { color: "#fff", fontSize: 18, fontWeight: "700" },
+  subtitle: { color: "#8a8f95", marginTop: 6, marginBottom: 8 },
+  policyRow: { flexDirection: "row", flexWrap: "wrap" },
+  policyChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: "#151516",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  policyChipActive: { backgroundColor: "#1f2230", borderWidth: 1, borderColor: "#2D8BFF" },
+  counts: { color: "#e6eef8", marginTop: 14, fontWeight: "600" },
+  list: { maxHeight: 240, marginTop: 10 },
+  itemRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "#1a1b1f",
+  },
+  itemTitle: { color: "#d6dae0", flex: 1, marginRight: 8 },
+});
@@ -0,0 +1,49 @@
+import React, { useMemo } from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { parseRichText } from "../lib/richText";
+import type { RichSpan } from "../lib/richText";
+
+type RichTextProps = {
+  body: string;
+  // show only the first blocks, e.g. on a list card
+  maxBlocks?: number;
+};
+
+function spans(list: RichSpan[]) {
+  return list.map((s, i) => (
+    <Text key={i} style={[s.bold && { fontWeight: "700" }, s.italic && { fontStyle: "italic" }]}>
+      {s.text}
+    </Text>
+  ));
+}
+
+// Renders a note's written text (see lib/richText for the markup).
+export default function RichText({ body, maxBlocks }: RichTextProps) {
+  const blocks = useMemo(() => parseRichText(body), [body]);
+  const shown = maxBlocks !== undefined ? blocks.slice(0, maxBlocks) : blocks;
+  return (
+    <View>
+      {shown.map((b, i) =>
+        b.type === "bullet" ? (
+          <View key={i} style={styles.bulletRow}>
+            <Text style={styles.text}>{"•"}</Text>
+            <Text style={[styles.text, { flex: 1, marginLeft: 6 }]}>{spans(b.spans)}</Text>
+          </View>
+        ) : (
+          <Text key={i} style={b.type === "heading" ? styles.heading : styles.paragraph}>
+            {spans(b.spans)}
+          </Text>
+        )
+      )}
+      {shown.length < blocks.length && <Text style={styles.more}>…</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: { color: "#d6d9dc", fontSize: 14, lineHeight: 20 },
+  paragraph: { color: "#d6d9dc", fontSize: 14, lineHeight: 20, marginBottom: 6 },
+  heading: { color: "#fff", fontSize: 15, fontWeight: "700", marginTop: 2, marginBottom: 4 },
+  bulletRow: { flexDirection: "row", marginBottom: 2 },
+  more: { color: "#9aa0a6" },
+});
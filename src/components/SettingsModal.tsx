@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import IntegrityView from "./IntegrityView";
+import RecordingSettingsView from "./RecordingSettingsView";
+import SyncView from "./SyncView";
+import FeedbackEndpointView from "./FeedbackEndpointView";
+import DiagnosticsView from "./DiagnosticsView";
+import RemindersView from "./RemindersView";
+import type { IntegrityIssue, IntegrityReport, RepairAction } from "../lib/integrity";
+import { presetLabel } from "../lib/recordingSettings";
+import type { RecordingSettings } from "../lib/recordingSettings";
+import type { DavConfig } from "../lib/webdav";
+import type { DeviceInfo } from "../lib/diagnostics";
+import type { ReminderSettings } from "../lib/reminderSchedule";
+import { hasActiveReminders } from "../lib/reminders";
+
+type SettingsModalProps = {
+  visible: boolean;
+  onClose: () => void;
+  passcodeEnabled: boolean;
+  onPasscode: () => void;
+  onScan: (onProgress: (done: number, total: number) => void) => Promise<IntegrityReport>;
+  onRepair: (issue: IntegrityIssue, action: RepairAction, target?: string) => Promise<void>;
+  recordingSettings: RecordingSettings;
+  onChangeRecordingSettings: (settings: RecordingSettings) => void;
+  syncConfig: DavConfig | null;
+  lastSyncAt: number | null;
+  syncing: boolean;
+  onSaveSyncConfig: (config: DavConfig | null) => void;
+  onSync: () => void;
+  feedbackEndpoint: string | null;
+  onSaveFeedbackEndpoint: (endpoint: string | null) => void;
+  device: DeviceInfo;
+  reminderSettings: ReminderSettings;
+  onChangeReminderSettings: (settings: ReminderSettings) => void;
+  nextReminderAt: number | null;
+};
+
+type Page = "main" | "storage" | "recording" | "sync" | "feedback" | "diagnostics" | "reminders";
+
+const PAGE_TITLES: Record<Page, string> = {
+  main: "Settings",
+  storage: "Storage check",
+  recording: "Recording",
+  sync: "Sync",
+  feedback: "Feedback",
+  diagnostics: "Diagnostics",
+  reminders: "Reminders",
+};
+
+export default function SettingsModal({
+  visible,
+  onClose,
+  passcodeEnabled,
+  onPasscode,
+  onScan,
+  onRepair,
+  recordingSettings,
+  onChangeRecordingSettings,
+  syncConfig,
+  lastSyncAt,
+  syncing,
+  onSaveSyncConfig,
+  onSync,
+  feedbackEndpoint,
+  onSaveFeedbackEndpoint,
+  device,
+  reminderSettings,
+  onChangeReminderSettings,
+  nextReminderAt,
+}: SettingsModalProps) {
+  const [page, setPage] = useState<Page>("main");
+
+  useEffect(() => {
+    if (visible) setPage("main");
+  }, [visible]);
+
+  const row = (
+    icon: keyof typeof Ionicons.glyphMap,
+    label: string,
+    value: string,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity style={styles.row} onPress={onPress}>
+      <Ionicons name={icon} size={18} color="#9aa0a6" />
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue}>{value}</Text>
+      <Ionicons name="chevron-forward" size={16} color="#6f767a" />
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={() => (page === "main" ? onClose() : setPage("main"))}
+    >
+      <View style={styles.container}>
+        <View style={styles.header}>
+          {page !== "main" && (
+            <TouchableOpacity onPress={() => setPage("main")} style={{ marginRight: 8 }}>
+              <Ionicons name="chevron-back" size={24} color="#fff" />
+            </TouchableOpacity>
+          )}
+          <Text style={styles.title}>{PAGE_TITLES[page]}</Text>
+          <View style={{ flex: 1 }} />
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {page === "main" && (
+          <>
+            <Text style={styles.section}>Security</Text>
+            {row("lock-closed", "Passcode", passcodeEnabled ? "On" : "Off", onPasscode)}
+            <Text style={styles.section}>Recording</Text>
+            {row("mic", "Quality", presetLabel(recordingSettings.preset), () =>
+              setPage("recording")
+            )}
+            {row("alarm", "Reminders", hasActiveReminders(reminderSettings) ? "On" : "Off", () =>
+              setPage("reminders")
+            )}
+            <Text style={styles.section}>Sync</Text>
+            {row("sync", "WebDAV", syncConfig ? "On" : "Off", () => setPage("sync"))}
+            <Text style={styles.section}>Storage</Text>
+            {row("medkit", "Check storage", "", () => setPage("storage"))}
+            <Text style={styles.section}>Feedback</Text>
+            {row("paper-plane", "Endpoint", feedbackEndpoint ? "Set" : "Not set", () =>
+              setPage("feedback")
+            )}
+            {row("document-text", "Diagnostics log", "", () => setPage("diagnostics"))}
+          </>
+        )}
+
+        {page === "storage" && <IntegrityView onScan={onScan} onRepair={onRepair} />}
+        {page === "sync" && (
+          <SyncView
+            config={syncConfig}
+            lastSyncAt={lastSyncAt}
+            syncing={syncing}
+            onSave={onSaveSyncConfig}
+            onSync={onSync}
+          />
+        )}
+        {page === "feedback" && (
+          <FeedbackEndpointView endpoint={feedbackEndpoint} onSave={onSaveFeedbackEndpoint} />
+        )}
+        {page === "reminders" && (
+          <RemindersView
+            settings={reminderSettings}
+            onChange={onChangeReminderSettings}
+            nextAt={nextReminderAt}
+          />
+        )}
+        {page === "diagnostics" && <DiagnosticsView device={device} />}
+        {page === "recording" && (
+          <RecordingSettingsView
+            settings={recordingSettings}
+            onChange={onChangeRecordingSettings}
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0f1012", paddingHorizontal: 18, paddingTop: 56 },
+  header: { flexDirection: "row", alignItems: "center" },
+  title: { color: "#fff", fontSize: 24, fontWeight: "800" },
+  section: { color: "#9aa0a6", marginTop: 24, marginBottom: 6, fontWeight: "600" },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#15171c",
+    borderRadius: 10,
+    padding: 14,
+    marginTop: 6,
+  },
+  rowLabel: { color: "#fff", marginLeft: 10, flex: 1 },
+  rowValue: { color: "#9aa0a6", marginRight: 6 },
+});
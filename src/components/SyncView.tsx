@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ScrollView } from "react-native";
+import type { DavConfig } from "../lib/webdav";
+
+type SyncViewProps = {
+  config: DavConfig | null;
+  lastSyncAt: number | null;
+  syncing: boolean;
+  // null turns sync off
+  onSave: (config: DavConfig | null) => void;
+  onSync: () => void;
+};
+
+// Sync page of the settings screen: the WebDAV folder and a manual sync.
+export default function SyncView({ config, lastSyncAt, syncing, onSave, onSync }: SyncViewProps) {
+  const [url, setUrl] = useState("");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    setUrl(config ? config.url : "");
+    setUsername(config ? config.username : "");
+    setPassword(config ? config.password : "");
+  }, [config]);
+
+  const edited =
+    !config || url !== config.url || username !== config.username || password !== config.password;
+  const validUrl = /^https?:\/\/\S+$/i.test(url.trim());
+
+  return (
+    <ScrollView style={{ flex: 1 }} contentContainerStyle={{ paddingBottom: 40 }}>
+      <Text style={styles.hint}>
+        Keeps this journal in a folder on your own WebDAV server and picks up changes made on other
+        devices. Nothing is encrypted on the server, even with a passcode set: the audio and every
+        note's title, tags, transcript, bookmarks and written text are readable by anyone with
+        access to the folder.
+      </Text>
+
+      <Text style={styles.section}>Folder URL</Text>
+      <TextInput
+        value={url}
+        onChangeText={setUrl}
+        placeholder="https://dav.example.com/journal"
+        placeholderTextColor="#7b8086"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        style={styles.input}
+      />
+      <Text style={styles.section}>User name</Text>
+      <TextInput
+        value={username}
+        onChangeText={setUsername}
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={styles.input}
+      />
+      <Text style={styles.section}>Password</Text>
+      <TextInput value={password} onChangeText={setPassword} secureTextEntry style={styles.input} />
+
+      {edited && (
+        <TouchableOpacity
+          style={[styles.button, !validUrl && { opacity: 0.4 }]}
+          disabled={!validUrl}
+          onPress={() => onSave({ url: url.trim(), username: username.trim(), password })}
+        >
+          <Text style={styles.buttonText}>Save</Text>
+        </TouchableOpacity>
+      )}
+
+      {config && !edited && (
+        <>
+          <TouchableOpacity style={styles.button} onPress={onSync} disabled={syncing}>
+            <Text style={styles.buttonText}>{syncing ? "Syncing..." : "Sync now"}</Text>
+          </TouchableOpacity>
+          <Text style={styles.hint}>
+            {lastSyncAt ? `Last synced ${new Date(lastSyncAt).toLocaleString()}` : "Not synced yet"}
+          </Text>
+          <TouchableOpacity style={styles.off} onPress={() => onSave(null)} disabled={syncing}>
+            <Text style={styles.offText}>Turn off sync</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  hint: { color: "#9aa0a6", fontSize: 12, marginTop: 8 },
+  section: { color: "#9aa0a6", marginTop: 16, fontWeight: "600" },
+  input: {
+    backgroundColor: "#151516",
+    color: "#fff",
+    padding: 12,
+    borderRadius: 10,
+    marginTop: 6,
+    borderColor: "#222",
+    borderWidth: 1,
+  },
+  button: {
+    marginTop: 16,
+    backgroundColor: "#1f2230",
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: "center",
+  },
+  buttonText: { color: "#fff", fontWeight: "600" },
+  off: { marginTop: 24, alignItems: "center", padding: 8 },
+  offText: { color: "#ff6b6b" },
+});
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import RichText from "./RichText";
+import { applyFormat } from "../lib/richText";
+import type { RichFormat, Selection } from "../lib/richText";
+
+type TextEntryModalProps = {
+  visible: boolean;
+  // a text entry has a title and its text; a recording only gets a written note here
+  withTitle: boolean;
+  initialTitle?: string;
+  initialBody?: string;
+  onSave: (title: string, body: string) => void;
+  onClose: () => void;
+};
+
+const TOOLS: { format: RichFormat; label: string; icon?: keyof typeof Ionicons.glyphMap }[] = [
+  { format: "bold", label: "Bold" },
+  { format: "italic", label: "Italic" },
+  { format: "heading", label: "Heading", icon: "text" },
+  { format: "bullet", label: "List", icon: "list" },
+];
+
+// Writes a text entry, or the written note under a recording.
+export default function TextEntryModal({
+  visible,
+  withTitle,
+  initialTitle = "",
+  initialBody = "",
+  onSave,
+  onClose,
+}: TextEntryModalProps) {
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+  const [selection, setSelection] = useState<Selection>({ start: 0, end: 0 });
+  const [preview, setPreview] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setTitle(initialTitle);
+    setBody(initialBody);
+    setSelection({ start: initialBody.length, end: initialBody.length });
+    setPreview(false);
+  }, [visible]);
+
+  function format(f: RichFormat) {
+    const next = applyFormat(body, selection, f);
+    setBody(next.text);
+    setSelection(next.selection);
+  }
+
+  const canSave = withTitle ? !!(title.trim() || body.trim()) : true;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.box}>
+          <Text style={styles.title}>
+            {withTitle
+              ? initialTitle || initialBody
+                ? "Edit entry"
+                : "New text entry"
+              : "Written note"}
+          </Text>
+
+          {withTitle && (
+            <TextInput
+              value={title}
+              onChangeText={setTitle}
+              placeholder="Title"
+              placeholderTextColor="#7b8086"
+              style={styles.input}
+            />
+          )}
+
+          <View style={styles.toolbar}>
+            {TOOLS.map((t) => (
+              <TouchableOpacity
+                key={t.format}
+                onPress={() => format(t.format)}
+                disabled={preview}
+                style={[styles.tool, preview && { opacity: 0.35 }]}
+                accessibilityLabel={t.label}
+              >
+                {t.icon ? (
+                  <Ionicons name={t.icon} size={18} color="#e6eef8" />
+                ) : (
+                  <Text
+                    style={[
+                      styles.toolText,
+                      t.format === "bold" ? { fontWeight: "800" } : { fontStyle: "italic" },
+                    ]}
+                  >
+                    {t.format === "bold" ? "B" : "I"}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+            <View style={{ flex: 1 }} />
+            <TouchableOpacity onPress={() => setPreview(!preview)} style={styles.tool}>
+              <Text style={{ color: "#2D8BFF" }}>{preview ? "Edit" : "Preview"}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {preview ? (
+            <ScrollView style={[styles.input, styles.bodyBox]}>
+              {body.trim() ? (
+                <RichText body={body} />
+              ) : (
+                <Text style={{ color: "#7b8086" }}>Nothing written yet.</Text>
+              )}
+            </ScrollView>
+          ) : (
+            <TextInput
+              value={body}
+              onChangeText={setBody}
+              selection={selection}
+              onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+              placeholder={withTitle ? "Write your entry" : "Summary, thoughts, follow-ups"}
+              placeholderTextColor="#7b8086"
+              style={[styles.input, styles.bodyBox]}
+              multiline
+              textAlignVertical="top"
+            />
+          )}
+          <Text style={styles.hint}>**bold**, _italic_, "# " heading, "- " list item</Text>
+
+          <View style={{ flexDirection: "row", justifyContent: "space-between", marginTop: 16 }}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={{ color: "#aaa" }}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={!canSave}
+              onPress={() => {
+                onSave(title.trim(), body.trim());
+                onClose();
+              }}
+            >
+              <Text style={{ color: canSave ? "#2D8BFF" : "#555" }}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  box: {
+    width: "92%",
+    backgroundColor: "#0f1113",
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  title: { color: "#fff", fontSize: 17, fontWeight: "700" },
+  input: {
+    marginTop: 10,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#16171A",
+    color: "#fff",
+    borderWidth: 1,
+    borderColor: "#222",
+  },
+  bodyBox: { height: 200 },
+  toolbar: { flexDirection: "row", alignItems: "center", marginTop: 10 },
+  tool: {
+    minWidth: 34,
+    height: 30,
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: 6,
+    backgroundColor: "#1f2230",
+    marginRight: 6,
+    paddingHorizontal: 6,
+  },
+  toolText: { color: "#e6eef8", fontSize: 15 },
+  hint: { color: "#7b8086", fontSize: 11, marginTop: 6 },
+});
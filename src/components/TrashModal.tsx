@@ -0,0 +1,146 @@
+import React from "react";
+import { Modal, View, Text, TouchableOpacity, StyleSheet, FlatList, Alert } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { RETENTION_CHOICES, expiresAt } from "../lib/trash";
+import type { TrashedNote } from "../lib/trash";
+
+type TrashModalProps = {
+  visible: boolean;
+  items: TrashedNote[];
+  retentionDays: number;
+  onRestore: (item: TrashedNote) => void;
+  onEmpty: () => void;
+  onChangeRetention: (days: number) => void;
+  onClose: () => void;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export default function TrashModal({
+  visible,
+  items,
+  retentionDays,
+  onRestore,
+  onEmpty,
+  onChangeRetention,
+  onClose,
+}: TrashModalProps) {
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Trash</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.section}>Delete for good after</Text>
+        <View style={styles.row}>
+          {RETENTION_CHOICES.map((days) => (
+            <TouchableOpacity
+              key={days}
+              style={[styles.chip, days === retentionDays && styles.chipActive]}
+              onPress={() => onChangeRetention(days)}
+            >
+              <Text style={styles.chipText}>
+                {days} {days === 1 ? "day" : "days"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <FlatList
+          data={items}
+          keyExtractor={(i) => i.note.id}
+          style={{ marginTop: 16 }}
+          renderItem={({ item }) => {
+            const daysLeft = Math.max(
+              0,
+              Math.ceil((expiresAt(item, retentionDays) - Date.now()) / DAY)
+            );
+            return (
+              <View style={styles.item}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.itemTitle}>{item.note.title}</Text>
+                  <Text style={styles.meta}>
+                    Deleted {new Date(item.deletedAt).toLocaleDateString()} - {daysLeft}{" "}
+                    {daysLeft === 1 ? "day" : "days"} left
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.restore} onPress={() => onRestore(item)}>
+                  <Ionicons name="arrow-undo" size={16} color="#fff" />
+                  <Text style={styles.restoreText}>Restore</Text>
+                </TouchableOpacity>
+              </View>
+            );
+          }}
+          ListEmptyComponent={<Text style={styles.meta}>The trash is empty.</Text>}
+        />
+
+        {items.length > 0 && (
+          <TouchableOpacity
+            style={styles.empty}
+            onPress={() =>
+              Alert.alert(
+                "Empty trash",
+                `Delete ${items.length} ${items.length === 1 ? "note" : "notes"} for good?`,
+                [
+                  { text: "Cancel", style: "cancel" },
+                  { text: "Delete", style: "destructive", onPress: onEmpty },
+                ]
+              )
+            }
+          >
+            <Text style={styles.emptyText}>Empty trash</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: "#0f1012", paddingHorizontal: 18, paddingTop: 56 },
+  header: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  title: { color: "#fff", fontSize: 24, fontWeight: "800" },
+  section: { color: "#9aa0a6", marginTop: 20, fontWeight: "600" },
+  row: { flexDirection: "row", flexWrap: "wrap", marginTop: 4 },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: "#16171A",
+    marginRight: 6,
+    marginTop: 6,
+  },
+  chipActive: { backgroundColor: "#1f3a5f" },
+  chipText: { color: "#fff", fontSize: 12 },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#15171c",
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  itemTitle: { color: "#fff", fontWeight: "600" },
+  meta: { color: "#9aa0a6", fontSize: 12, marginTop: 4 },
+  restore: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#1f2230",
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  restoreText: { color: "#fff", fontSize: 12, marginLeft: 4 },
+  empty: {
+    alignItems: "center",
+    paddingVertical: 14,
+    marginBottom: 32,
+    borderRadius: 10,
+    backgroundColor: "#2a1517",
+  },
+  emptyText: { color: "#ff6b6b", fontWeight: "600" },
+});
@@ -0,0 +1,54 @@
+import React, { useEffect } from "react";
+import { View, Text, TouchableOpacity, StyleSheet } from "react-native";
+
+type UndoToastProps = {
+  message: string;
+  onUndo: () => void;
+  // called when the toast times out
+  onDismiss: () => void;
+  durationMs?: number;
+  // distance from the bottom of the screen, to stay clear of other docked bars
+  bottom?: number;
+};
+
+// Bar at the bottom of the list offering to undo the last action.
+export default function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  durationMs = 5000,
+  bottom = 120,
+}: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timer);
+  }, [message]);
+
+  return (
+    <View style={[styles.toast, { bottom }]}>
+      <Text style={styles.text} numberOfLines={1}>
+        {message}
+      </Text>
+      <TouchableOpacity onPress={onUndo}>
+        <Text style={styles.undo}>UNDO</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: "absolute",
+    left: 16,
+    right: 16,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#2a2d3a",
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    elevation: 10,
+  },
+  text: { color: "#fff", flex: 1 },
+  undo: { color: "#4f9cff", fontWeight: "700", marginLeft: 12 },
+});
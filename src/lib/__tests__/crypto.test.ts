@@ -0,0 +1,109 @@
+import { chacha20, hmacSha256, open, pbkdf2, seal, utf8ToBytes } from "../crypto";
+import { toHex } from "../sha256";
+import { newDataKey, unwrapKey, wrapKey } from "../vault";
+
+jest.mock("expo-crypto", () => ({
+  getRandomBytes: (count: number) => new Uint8Array(require("crypto").randomBytes(count)),
+}));
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// Known-answer tests: the vault can only be opened again if these stay exact.
+
+function hex(text: string) {
+  const clean = text.replace(/\s+/g, "");
+  return new Uint8Array(clean.match(/../g)!.map((b) => parseInt(b, 16)));
+}
+
+describe("chacha20", () => {
+  it("matches the RFC 8439 section 2.4.2 encryption example", () => {
+    const key = new Uint8Array(32).map((_, i) => i);
+    const nonce = hex("000000000000004a00000000");
+    const plain = utf8ToBytes(
+      "Ladies and Gentlemen of the class of '99: If I could offer you only one tip for " +
+        "the future, sunscreen would be it."
+    );
+    const expected = `
+      6e2e359a2568f98041ba0728dd0d6981e97e7aec1d4360c20a27afccfd9fae0b
+      f91b65c5524733ab8f593dabcd62b3571639d624e65152ab8f530c359f0861d8
+      07ca0dbf500d6a6156a38e088a22b65e52bc514d16ccf806818ce91ab7793736
+      5af90bbf74a35be6b40b8eedf2785e42874d`;
+    const cipher = chacha20(key, nonce, plain, 1);
+    expect(toHex(cipher)).toBe(toHex(hex(expected)));
+    expect(chacha20(key, nonce, cipher, 1)).toEqual(plain);
+  });
+});
+
+describe("hmacSha256", () => {
+  // RFC 4231 test cases 1, 2 and 6 (a key longer than the block size)
+  it.each([
+    [
+      "case 1",
+      "0b".repeat(20),
+      "Hi There",
+      "b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7",
+    ],
+    [
+      "case 2",
+      toHex(utf8ToBytes("Jefe")),
+      "what do ya want for nothing?",
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    ],
+    [
+      "case 6",
+      "aa".repeat(131),
+      "Test Using Larger Than Block-Size Key - Hash Key First",
+      "60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54",
+    ],
+  ])("RFC 4231 %s", (_name, key, data, mac) => {
+    expect(toHex(hmacSha256(hex(key), utf8ToBytes(data)))).toBe(mac);
+  });
+});
+
+describe("pbkdf2", () => {
+  // PBKDF2-HMAC-SHA256 vectors in the style of RFC 6070 (the last one is from RFC 7914)
+  it.each([
+    ["password", "salt", 1, 32, "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"],
+    ["password", "salt", 2, 32, "ae4d0c95af6b46d32d0adff928f06dd02a303f8ef3c251dfd6e2d85a95474c43"],
+    [
+      "password",
+      "salt",
+      4096,
+      32,
+      "c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a",
+    ],
+    [
+      "passwd",
+      "salt",
+      1,
+      64,
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc" +
+        "49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783",
+    ],
+  ])("%s / %s, %i iterations", (passcode, salt, iterations, length, key) => {
+    expect(toHex(pbkdf2(passcode, utf8ToBytes(salt), iterations, length))).toBe(key);
+  });
+});
+
+describe("seal and open", () => {
+  it("round-trips and rejects a wrong key or changed data", () => {
+    const key = newDataKey();
+    const plain = utf8ToBytes("a note");
+    const sealed = seal(key, plain);
+    expect(open(key, sealed)).toEqual(plain);
+    expect(() => open(newDataKey(), sealed)).toThrow("Wrong key or corrupted data");
+
+    const changed = sealed.slice();
+    changed[changed.length - 40] ^= 1;
+    expect(() => open(key, changed)).toThrow("Wrong key or corrupted data");
+  });
+
+  it("unwraps a data key with its passcode only", () => {
+    const dataKey = newDataKey();
+    const lock = wrapKey("1234", dataKey);
+    expect(unwrapKey("1234", lock)).toEqual(dataKey);
+    expect(() => unwrapKey("1235", lock)).toThrow("Wrong key or corrupted data");
+  });
+});
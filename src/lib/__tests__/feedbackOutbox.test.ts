@@ -0,0 +1,186 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  MAX_ATTEMPTS,
+  addFeedback,
+  backoffMs,
+  deliverDue,
+  loadOutbox,
+  retryFeedback,
+} from "../feedbackOutbox";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// never answers, but gives up when the request is aborted
+const hangingFetch = ((_url: string, init: RequestInit) =>
+  new Promise((_resolve, reject) => {
+    init.signal!.addEventListener("abort", () => reject(new Error("Aborted")));
+  })) as unknown as typeof fetch;
+
+const okFetch = (async () => ({ ok: true, status: 200 })) as unknown as typeof fetch;
+
+// answers every request with `status`, counting them
+function answering(status: number) {
+  const calls: string[] = [];
+  const fetchImpl = (async (_url: string, init: RequestInit) => {
+    calls.push(JSON.parse(String(init.body)).id);
+    return { ok: status >= 200 && status < 300, status };
+  }) as unknown as typeof fetch;
+  return { fetchImpl, calls };
+}
+
+// answers once `release` is called, so a test can act while a request is in flight
+function held() {
+  const calls: string[] = [];
+  let answer = () => {};
+  const fetchImpl = ((_url: string, init: RequestInit) => {
+    calls.push(JSON.parse(String(init.body)).id);
+    return new Promise((resolve) => {
+      answer = () => resolve({ ok: true, status: 200 });
+    });
+  }) as unknown as typeof fetch;
+  return { fetchImpl, calls, release: () => answer() };
+}
+
+async function until(condition: () => boolean) {
+  for (let i = 0; i < 100 && !condition(); i++) await new Promise((r) => setTimeout(r, 0));
+  expect(condition()).toBe(true);
+}
+
+const ENDPOINT = "https://example.com/feedback";
+const fields = (message: string) => ({ name: "", email: "", message });
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe("deliverDue", () => {
+  it("aborts a request without a response and retries it later", async () => {
+    const entry = await addFeedback({ name: "", email: "", message: "hello" }, 1000);
+
+    const report = await deliverDue("https://example.com/feedback", "ios", {
+      fetchImpl: hangingFetch,
+      now: () => 2000,
+      timeoutMs: 20,
+    });
+    expect(report).toEqual({ sent: 0, failed: 0, waiting: 1 });
+    const [waiting] = await loadOutbox();
+    expect(waiting).toMatchObject({ id: entry.id, status: "pending", attempts: 1 });
+    expect(waiting.lastError).toBe("No response after 0.02s");
+    expect(waiting.nextAttemptAt).toBeGreaterThan(2000);
+
+    // the hung request doesn't hold up the next run; back online, it goes out at once
+    expect(
+      await deliverDue("https://example.com/feedback", "ios", {
+        fetchImpl: okFetch,
+        now: () => 3000,
+        ignoreBackoff: true,
+      })
+    ).toEqual({ sent: 1, failed: 0, waiting: 0 });
+    expect((await loadOutbox())[0]).toMatchObject({ status: "sent", sentAt: 3000 });
+  });
+
+  it("waits out a growing backoff between failed sends", async () => {
+    const entry = await addFeedback(fields("hello"), 0);
+    const server = answering(503);
+
+    await deliverDue(ENDPOINT, "ios", { fetchImpl: server.fetchImpl, now: () => 1000 });
+    expect((await loadOutbox())[0]).toMatchObject({
+      attempts: 1,
+      nextAttemptAt: 1000 + backoffMs(1),
+      lastError: "Server error (503)",
+    });
+
+    // not due yet: nothing is sent
+    expect(
+      await deliverDue(ENDPOINT, "ios", { fetchImpl: server.fetchImpl, now: () => 20000 })
+    ).toEqual({ sent: 0, failed: 0, waiting: 0 });
+    expect(server.calls).toEqual([entry.id]);
+
+    await deliverDue(ENDPOINT, "ios", { fetchImpl: server.fetchImpl, now: () => 31000 });
+    expect((await loadOutbox())[0]).toMatchObject({
+      attempts: 2,
+      nextAttemptAt: 31000 + backoffMs(2),
+    });
+    expect(backoffMs(2)).toBe(2 * backoffMs(1));
+    expect(backoffMs(30)).toBe(60 * 60 * 1000);
+  });
+
+  it("marks an entry failed after the last attempt until it is retried by hand", async () => {
+    const entry = await addFeedback(fields("hello"), 0);
+    const server = answering(500);
+    const options = { fetchImpl: server.fetchImpl, now: () => 1000, ignoreBackoff: true };
+
+    for (let i = 1; i < MAX_ATTEMPTS; i++) {
+      expect(await deliverDue(ENDPOINT, "ios", options)).toMatchObject({ waiting: 1 });
+    }
+    expect(await deliverDue(ENDPOINT, "ios", options)).toEqual({ sent: 0, failed: 1, waiting: 0 });
+    expect((await loadOutbox())[0]).toMatchObject({ status: "failed", attempts: MAX_ATTEMPTS });
+
+    await deliverDue(ENDPOINT, "ios", options);
+    expect(server.calls).toHaveLength(MAX_ATTEMPTS);
+
+    await retryFeedback(entry.id);
+    expect((await loadOutbox())[0]).toMatchObject({ status: "pending", attempts: 0 });
+  });
+
+  it("fails an entry the server rejects without retrying it", async () => {
+    await addFeedback(fields("hello"), 0);
+    const report = await deliverDue(ENDPOINT, "ios", { fetchImpl: answering(422).fetchImpl });
+    expect(report).toEqual({ sent: 0, failed: 1, waiting: 0 });
+    expect((await loadOutbox())[0]).toMatchObject({
+      status: "failed",
+      attempts: 0,
+      lastError: "Rejected by the server (422)",
+    });
+  });
+
+  it("keeps feedback added while another entry is being sent", async () => {
+    const first = await addFeedback(fields("first"), 0);
+    const server = held();
+    const sending = deliverDue(ENDPOINT, "ios", { fetchImpl: server.fetchImpl, now: () => 1000 });
+    await until(() => server.calls.length === 1);
+
+    const second = await addFeedback(fields("second"), 1000);
+    server.release();
+    expect(await sending).toEqual({ sent: 1, failed: 0, waiting: 0 });
+
+    const outbox = await loadOutbox();
+    expect(outbox.map((e) => [e.id, e.status])).toEqual([
+      [second.id, "pending"],
+      [first.id, "sent"],
+    ]);
+  });
+
+  it("runs again after the current run when asked to skip the backoff", async () => {
+    const waiting = await addFeedback(fields("waiting"), 0);
+    await deliverDue(ENDPOINT, "ios", { fetchImpl: answering(503).fetchImpl, now: () => 0 });
+    const due = await addFeedback(fields("due"), 1000);
+
+    const server = held();
+    const running = deliverDue(ENDPOINT, "ios", { fetchImpl: server.fetchImpl, now: () => 1000 });
+    await until(() => server.calls.length === 1);
+    // back online while the run that skipped the waiting entry is still going
+    const again = deliverDue(ENDPOINT, "ios", {
+      fetchImpl: okFetch,
+      now: () => 1000,
+      ignoreBackoff: true,
+    });
+    expect(again).not.toBe(running);
+    server.release();
+
+    expect(await running).toEqual({ sent: 1, failed: 0, waiting: 0 });
+    expect(await again).toEqual({ sent: 1, failed: 0, waiting: 0 });
+    expect(server.calls).toEqual([due.id]);
+    expect((await loadOutbox()).find((e) => e.id === waiting.id)).toMatchObject({
+      status: "sent",
+    });
+  });
+
+  it("gives entries added in the same millisecond different ids", async () => {
+    const a = await addFeedback(fields("a"), 5000);
+    const b = await addFeedback(fields("b"), 5000);
+    expect(a.id).not.toBe(b.id);
+  });
+});
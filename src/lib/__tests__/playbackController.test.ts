@@ -0,0 +1,316 @@
+import type { AVPlaybackStatus, AVPlaybackStatusToSet } from "expo-av";
+import type { Note } from "../../types";
+import { createPlaybackController } from "../playbackController";
+import type { PlaybackDeps, ResolvedUri, SoundLike } from "../playbackController";
+import type { Positions } from "../playbackPositions";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock")
+);
+
+// A sound that keeps its state in memory. `emit` plays the part of expo-av's status
+// callback; `finish` ends the note as if it played to the end.
+type FakeSound = SoundLike & {
+  uri: string;
+  playing: boolean;
+  loaded: boolean;
+  positionMillis: number;
+  rate: number;
+  emit: (patch?: { positionMillis?: number; didJustFinish?: boolean }) => void;
+  finish: () => void;
+};
+
+function fakeSound(uri: string, initial: AVPlaybackStatusToSet, durationMillis: number) {
+  let onUpdate: ((status: AVPlaybackStatus) => void) | null = null;
+  const status = (didJustFinish = false) =>
+    (sound.loaded
+      ? {
+          isLoaded: true,
+          uri,
+          positionMillis: sound.positionMillis,
+          durationMillis,
+          isPlaying: sound.playing,
+          didJustFinish,
+        }
+      : { isLoaded: false }) as AVPlaybackStatus;
+  const sound: FakeSound = {
+    uri,
+    playing: !!initial.shouldPlay,
+    loaded: true,
+    positionMillis: initial.positionMillis || 0,
+    rate: initial.rate || 1,
+    playAsync: async () => {
+      sound.playing = true;
+      return status();
+    },
+    pauseAsync: async () => {
+      sound.playing = false;
+      return status();
+    },
+    stopAsync: async () => {
+      sound.playing = false;
+      return status();
+    },
+    unloadAsync: async () => {
+      sound.playing = false;
+      sound.loaded = false;
+      return status();
+    },
+    setPositionAsync: async (ms) => {
+      sound.positionMillis = ms;
+      return status();
+    },
+    setRateAsync: async (rate) => {
+      sound.rate = rate;
+      return status();
+    },
+    getStatusAsync: async () => status(),
+    setOnPlaybackStatusUpdate: (fn) => {
+      onUpdate = fn;
+    },
+    emit: (patch = {}) => {
+      if (patch.positionMillis !== undefined) sound.positionMillis = patch.positionMillis;
+      if (onUpdate) onUpdate(status(!!patch.didJustFinish));
+    },
+    finish: () => {
+      sound.positionMillis = durationMillis;
+      sound.playing = false;
+      sound.emit({ didJustFinish: true });
+    },
+  };
+  return sound;
+}
+
+// every note is a minute long
+function note(id: string): Note {
+  return {
+    id,
+    kind: "audio",
+    title: id,
+    uri: `/doc/voiceNotes/${id}.wav`,
+    createdAt: 0,
+    duration: 60000,
+  };
+}
+
+const a = note("a");
+const b = note("b");
+const c = note("c");
+
+function setup(deps: Partial<PlaybackDeps> = {}) {
+  const sounds: FakeSound[] = [];
+  const saved: Positions[] = [];
+  const controller = createPlaybackController({
+    createSound: async (uri, initial) => {
+      const sound = fakeSound(uri, initial, 60000);
+      sounds.push(sound);
+      return sound;
+    },
+    savePositions: async (positions) => {
+      saved.push(positions);
+    },
+    ...deps,
+  });
+  const last = () => sounds[sounds.length - 1];
+  return { controller, sounds, saved, last };
+}
+
+// lets queued promise callbacks (auto-advance after a finish) run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("playback controller", () => {
+  it("plays, pauses and resumes the same sound", async () => {
+    const { controller, sounds, last } = setup();
+    await controller.play(a);
+    expect(controller.getState()).toMatchObject({ activeId: "a", playing: true });
+    expect(last().playing).toBe(true);
+
+    last().emit({ positionMillis: 4000 });
+    await controller.pause();
+    expect(controller.getState().playing).toBe(false);
+    expect(controller.getState().positions).toEqual({ a: 4000 });
+
+    await controller.togglePause();
+    expect(sounds).toHaveLength(1);
+    expect(last().playing).toBe(true);
+    expect(controller.getState().playing).toBe(true);
+  });
+
+  it("resumes a note from its saved position after it was unloaded", async () => {
+    const { controller, sounds, saved } = setup();
+    await controller.play(a);
+    sounds[0].emit({ positionMillis: 12000 });
+    await controller.play(b);
+
+    // the first sound is gone and its position was saved on the way out
+    expect(sounds[0].loaded).toBe(false);
+    expect(saved[saved.length - 1]).toEqual({ a: 12000 });
+
+    await controller.play(a);
+    expect(sounds[2].positionMillis).toBe(12000);
+  });
+
+  it("restores saved positions without overwriting newer ones", async () => {
+    const { controller, sounds } = setup({ loadPositions: async () => ({ a: 9000, b: 3000 }) });
+    await controller.play(b);
+    sounds[0].emit({ positionMillis: 7000 });
+    await controller.pause();
+    await controller.restorePositions();
+    expect(controller.getState().positions).toEqual({ a: 9000, b: 7000 });
+  });
+
+  it("advances through the queue and clears it after the last note", async () => {
+    const { controller, sounds } = setup();
+    await controller.playQueue([a, b, c]);
+    expect(controller.getState()).toMatchObject({ activeId: "a", queueIndex: 0 });
+
+    sounds[0].finish();
+    await settle();
+    expect(controller.getState()).toMatchObject({ activeId: "b", queueIndex: 1 });
+    expect(sounds[0].loaded).toBe(false);
+
+    sounds[1].finish();
+    await settle();
+    sounds[2].finish();
+    await settle();
+    expect(controller.getState()).toMatchObject({ activeId: null, queue: [], queueIndex: -1 });
+    // finished notes start over next time
+    expect(controller.getState().positions).toEqual({});
+  });
+
+  it("moves to the next and previous note, restarting a note that is under way", async () => {
+    const { controller, sounds, last } = setup();
+    await controller.playQueue([a, b, c], 1);
+    expect(controller.getState().activeId).toBe("b");
+
+    await controller.next();
+    expect(controller.getState()).toMatchObject({ activeId: "c", queueIndex: 2 });
+    await controller.next();
+    expect(controller.getState().activeId).toBe("c");
+
+    last().emit({ positionMillis: 10000 });
+    await controller.previous();
+    expect(controller.getState().activeId).toBe("c");
+    expect(last().positionMillis).toBe(0);
+
+    await controller.previous();
+    expect(controller.getState()).toMatchObject({ activeId: "b", queueIndex: 1 });
+    expect(sounds).toHaveLength(3);
+  });
+
+  it("ends the queue when a note outside it is played", async () => {
+    const { controller } = setup();
+    await controller.playQueue([a, b]);
+    await controller.play(c);
+    expect(controller.getState()).toMatchObject({ activeId: "c", queue: [], queueIndex: -1 });
+  });
+
+  it("seeks and skips within the loaded note", async () => {
+    const { controller, sounds, last } = setup();
+    await controller.play(a);
+    await controller.seek(a, 30000);
+    expect(last().positionMillis).toBe(30000);
+    expect(controller.getState().positionMs).toBe(30000);
+
+    await controller.skip(15000);
+    expect(last().positionMillis).toBe(45000);
+    await controller.skip(30000);
+    expect(last().positionMillis).toBe(60000);
+    await controller.skip(-90000);
+    expect(last().positionMillis).toBe(0);
+    expect(sounds).toHaveLength(1);
+
+    // seeking another note starts it there
+    await controller.seek(b, 5000);
+    expect(controller.getState().activeId).toBe("b");
+    expect(last().positionMillis).toBe(5000);
+  });
+
+  it("plays the reversed copy from the start and keeps the forward position", async () => {
+    const resolveUri = async (n: Note, reverse: boolean): Promise<ResolvedUri> =>
+      reverse
+        ? { uri: n.uri.replace(".wav", "_rev.wav"), reversed: true }
+        : { uri: n.uri, reversed: false };
+    const { controller, sounds, last } = setup({ resolveUri });
+    await controller.play(a);
+    sounds[0].emit({ positionMillis: 20000 });
+
+    await controller.play(a, { reverse: true });
+    expect(last().uri).toBe("/doc/voiceNotes/a_rev.wav");
+    expect(last().positionMillis).toBe(0);
+    expect(controller.getState().reversed).toBe(true);
+
+    // positions in the reversed file are not saved as positions in the note
+    last().emit({ positionMillis: 15000 });
+    await controller.pause();
+    sounds[1].finish();
+    await settle();
+    expect(controller.getState().positions).toEqual({ a: 20000 });
+
+    await controller.play(a);
+    expect(last().uri).toBe("/doc/voiceNotes/a.wav");
+    expect(last().positionMillis).toBe(20000);
+  });
+
+  it("falls back to forward playback when no reversed copy is available", async () => {
+    const { controller } = setup({ resolveUri: async (n) => ({ uri: n.uri, reversed: false }) });
+    await controller.play(a, { reverse: true });
+    expect(controller.getState()).toMatchObject({ activeId: "a", reversed: false });
+  });
+
+  it("releases a note: unloads it, forgets its position and drops it from the queue", async () => {
+    const { controller, sounds } = setup();
+    await controller.playQueue([a, b, c], 1);
+    sounds[0].emit({ positionMillis: 8000 });
+    await controller.release("b");
+
+    expect(sounds[0].loaded).toBe(false);
+    expect(controller.getState()).toMatchObject({ activeId: null, queueIndex: -1 });
+    expect(controller.getState().queue.map((n) => n.id)).toEqual(["a", "c"]);
+    expect(controller.getState().positions).toEqual({});
+  });
+
+  it("unloads the sound of a load that was overtaken by a newer one", async () => {
+    // the first note takes a while to resolve (e.g. decrypting), the second doesn't
+    let resolveSlow: (uri: ResolvedUri) => void = () => {};
+    const resolveUri = (n: Note) =>
+      n.id === "a"
+        ? new Promise<ResolvedUri>((resolve) => {
+            resolveSlow = resolve;
+          })
+        : Promise.resolve({ uri: n.uri, reversed: false });
+    const { controller, sounds } = setup({ resolveUri });
+
+    const first = controller.play(a);
+    await settle();
+    await controller.play(b);
+    resolveSlow({ uri: a.uri, reversed: false });
+    await first;
+
+    expect(sounds.map((s) => s.uri)).toEqual([b.uri]);
+    expect(controller.getState()).toMatchObject({ activeId: "b", playing: true });
+  });
+
+  it("unloads a sound created after the load was overtaken", async () => {
+    let createSlow: () => void = () => {};
+    const created: FakeSound[] = [];
+    const createSound = (uri: string, initial: AVPlaybackStatusToSet) =>
+      new Promise<SoundLike>((resolve) => {
+        const sound = fakeSound(uri, initial, 60000);
+        created.push(sound);
+        if (uri === a.uri) createSlow = () => resolve(sound);
+        else resolve(sound);
+      });
+    const { controller } = setup({ createSound });
+
+    const first = controller.play(a);
+    await settle();
+    await controller.stop();
+    createSlow();
+    await first;
+
+    expect(created).toHaveLength(1);
+    expect(created[0].loaded).toBe(false);
+    expect(controller.getState().activeId).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { formatDay, parseDay, parseQuery } from "../query";
+import type { Note } from "../../types";
+
+// Europe/Berlin (see jest.globalSetup.js): clocks go forward on 2026-03-29 and back on
+// 2026-10-25
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) =>
+  new Date(y, mo - 1, d, h, mi).getTime();
+
+function note(patch: Partial<Note>): Note {
+  return {
+    id: "n",
+    title: "",
+    uri: "/n.m4a",
+    createdAt: at(2026, 5, 1, 12),
+    duration: 0,
+    ...patch,
+  };
+}
+
+function matches(query: string, n: Note, now = at(2026, 5, 1, 12)) {
+  const parsed = parseQuery(query, now);
+  if (!parsed.ok) throw new Error(parsed.error);
+  return parsed.match(n);
+}
+
+describe("parseDay", () => {
+  it("takes yesterday as the previous calendar day across DST changes", () => {
+    expect(formatDay(parseDay("yesterday", at(2026, 3, 30, 0, 30))!)).toBe("2026-03-29");
+    expect(parseDay("yesterday", at(2026, 3, 30, 0, 30))).toBe(at(2026, 3, 29));
+    expect(parseDay("yesterday", at(2026, 10, 26, 0, 30))).toBe(at(2026, 10, 25));
+    expect(parseDay("yesterday", at(2026, 10, 25, 23, 59))).toBe(at(2026, 10, 24));
+  });
+
+  it("counts Nd in calendar days", () => {
+    expect(parseDay("0d", at(2026, 4, 2, 9))).toBe(at(2026, 4, 2));
+    expect(parseDay("7d", at(2026, 4, 2, 9))).toBe(at(2026, 3, 26));
+    expect(parseDay("30d", at(2026, 11, 1, 1))).toBe(at(2026, 10, 2));
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(parseDay("2026-02-29", 0)).toBeNull();
+    expect(parseDay("2028-02-29", 0)).toBe(at(2028, 2, 29));
+    expect(parseDay("tomorrow", 0)).toBeNull();
+  });
+});
+
+describe("parseQuery", () => {
+  it("matches duration:= at the precision written", () => {
+    expect(matches("duration:=2m", note({ duration: 119999 }))).toBe(false);
+    expect(matches("duration:=2m", note({ duration: 120000 }))).toBe(true);
+    expect(matches("duration:=2m", note({ duration: 179999 }))).toBe(true);
+    expect(matches("duration:=2m", note({ duration: 180000 }))).toBe(false);
+    expect(matches("duration:2m", note({ duration: 150000 }))).toBe(true);
+    expect(matches("duration:=1.5m", note({ duration: 90000 }))).toBe(true);
+    expect(matches("duration:=1.5m", note({ duration: 95999 }))).toBe(true);
+    expect(matches("duration:=1.5m", note({ duration: 96000 }))).toBe(false);
+    expect(matches("duration:=90", note({ duration: 90500 }))).toBe(true);
+  });
+
+  it("compares durations with the unit", () => {
+    expect(matches("duration:>2m", note({ duration: 120001 }))).toBe(true);
+    expect(matches("duration:>2m", note({ duration: 120000 }))).toBe(false);
+    expect(matches("duration:>=120s", note({ duration: 120000 }))).toBe(true);
+    expect(matches("duration:<500ms", note({ duration: 499 }))).toBe(true);
+    expect(matches("duration:<=1h", note({ duration: 3600001 }))).toBe(false);
+  });
+
+  it("filters by day with relative dates", () => {
+    const now = at(2026, 3, 30, 10);
+    expect(matches("on:yesterday", note({ createdAt: at(2026, 3, 29, 23, 59) }), now)).toBe(true);
+    expect(matches("on:yesterday", note({ createdAt: at(2026, 3, 30) }), now)).toBe(false);
+    expect(matches("after:1d", note({ createdAt: at(2026, 3, 29) }), now)).toBe(true);
+    expect(matches("before:1d", note({ createdAt: at(2026, 3, 29) }), now)).toBe(false);
+    // the 23-hour day still covers its last hour
+    expect(matches("on:2026-03-29", note({ createdAt: at(2026, 3, 29, 23, 30) }))).toBe(true);
+    // and the 25-hour day its extra one
+    expect(matches("on:2026-10-25", note({ createdAt: at(2026, 10, 25, 23, 30) }))).toBe(true);
+  });
+
+  it("combines fields, phrases and negation", () => {
+    const n = note({
+      title: "Weekly sync",
+      tags: ["work"],
+      transcript: {
+        engine: "fake",
+        createdAt: 0,
+        segments: [{ startMs: 0, endMs: 1000, text: "buy groceries" }],
+      },
+    });
+    expect(matches('"weekly sync" tag:work', n)).toBe(true);
+    expect(matches("transcript:groceries -tag:home", n)).toBe(true);
+    expect(matches("-groceries", n)).toBe(false);
+    expect(matches("is:audio", n)).toBe(true);
+    expect(matches("is:text", note({ kind: "text", uri: "", body: "**hi**" }))).toBe(true);
+    expect(matches("text:hi", note({ kind: "text", uri: "", body: "**hi**" }))).toBe(true);
+  });
+
+  it("reports malformed queries", () => {
+    expect(parseQuery('"open')).toEqual({ ok: false, error: "Missing closing quote" });
+    expect(parseQuery("duration:long").ok).toBe(false);
+    expect(parseQuery("on:someday").ok).toBe(false);
+    expect(parseQuery("is:video").ok).toBe(false);
+    expect(parseQuery("color:red").ok).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  EVERY_DAY,
+  inQuietHours,
+  normalizeReminderSettings,
+  upcomingReminders,
+} from "../reminderSchedule";
+import type { ReminderSchedule, ReminderSettings } from "../reminderSchedule";
+
+// Europe/Berlin (see jest.globalSetup.js): clocks go forward on 2026-03-29 and back on
+// 2026-10-25, both Sundays
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) =>
+  new Date(y, mo - 1, d, h, mi).getTime();
+
+function schedule(patch: Partial<ReminderSchedule>): ReminderSchedule {
+  return { id: "s", label: "", time: 8 * 60, days: EVERY_DAY, enabled: true, ...patch };
+}
+
+function settings(patch: Partial<ReminderSettings>): ReminderSettings {
+  return {
+    schedules: [schedule({})],
+    quietHours: { enabled: false, start: 22 * 60, end: 7 * 60 },
+    skipIfRecorded: false,
+    ...patch,
+  };
+}
+
+const times = (list: { at: number }[]) =>
+  list.map((r) => {
+    const d = new Date(r.at);
+    return `${d.getDate()} ${d.getHours()}:${String(d.getMinutes()).padStart(2, "0")}`;
+  });
+
+describe("inQuietHours", () => {
+  const quiet = { enabled: true, start: 22 * 60, end: 7 * 60 };
+
+  it("wraps past midnight when start is after end", () => {
+    expect(inQuietHours(quiet, 22 * 60)).toBe(true);
+    expect(inQuietHours(quiet, 23 * 60 + 59)).toBe(true);
+    expect(inQuietHours(quiet, 0)).toBe(true);
+    expect(inQuietHours(quiet, 6 * 60 + 59)).toBe(true);
+    expect(inQuietHours(quiet, 7 * 60)).toBe(false);
+    expect(inQuietHours(quiet, 21 * 60 + 59)).toBe(false);
+  });
+
+  it("covers a span within one day", () => {
+    const noon = { enabled: true, start: 12 * 60, end: 14 * 60 };
+    expect(inQuietHours(noon, 12 * 60)).toBe(true);
+    expect(inQuietHours(noon, 14 * 60)).toBe(false);
+    expect(inQuietHours(noon, 0)).toBe(false);
+  });
+
+  it("is off when disabled or empty", () => {
+    expect(inQuietHours({ ...quiet, enabled: false }, 23 * 60)).toBe(false);
+    expect(inQuietHours({ enabled: true, start: 600, end: 600 }, 600)).toBe(false);
+  });
+});
+
+describe("upcomingReminders", () => {
+  it("keeps the wall-clock time across the spring DST change", () => {
+    const list = upcomingReminders(settings({}), [], at(2026, 3, 28, 9), { days: 3 });
+    expect(times(list)).toEqual(["29 8:00", "30 8:00"]);
+    // the night of the change is an hour shorter
+    expect(list[0].at - at(2026, 3, 28, 8)).toBe(23 * 3600 * 1000);
+    expect(list[1].at - list[0].at).toBe(24 * 3600 * 1000);
+  });
+
+  it("keeps the wall-clock time across the autumn DST change", () => {
+    const list = upcomingReminders(settings({}), [], at(2026, 10, 24, 9), { days: 2 });
+    expect(times(list)).toEqual(["25 8:00"]);
+    expect(list[0].at - at(2026, 10, 24, 8)).toBe(25 * 3600 * 1000);
+  });
+
+  it("moves a time skipped by the spring change to the hour after", () => {
+    const s = settings({ schedules: [schedule({ time: 2 * 60 + 30 })] });
+    expect(times(upcomingReminders(s, [], at(2026, 3, 29, 0), { days: 1 }))).toEqual(["29 3:30"]);
+  });
+
+  it("drops reminders in quiet hours that wrap past midnight", () => {
+    const s = settings({
+      schedules: [
+        schedule({ id: "late", time: 23 * 60 }),
+        schedule({ id: "early", time: 6 * 60 }),
+        schedule({ id: "day", time: 12 * 60 }),
+      ],
+      quietHours: { enabled: true, start: 22 * 60, end: 7 * 60 },
+    });
+    const list = upcomingReminders(s, [], at(2026, 5, 4, 0), { days: 1 });
+    expect(list.map((r) => r.scheduleId)).toEqual(["day"]);
+  });
+
+  it("skips days that already have a note, and only those", () => {
+    const s = settings({ skipIfRecorded: true });
+    const notes = [{ createdAt: at(2026, 5, 5, 7) }];
+    expect(times(upcomingReminders(s, notes, at(2026, 5, 4, 9), { days: 3 }))).toEqual(["6 8:00"]);
+    expect(
+      times(
+        upcomingReminders({ ...s, skipIfRecorded: false }, notes, at(2026, 5, 4, 9), { days: 3 })
+      )
+    ).toEqual(["5 8:00", "6 8:00"]);
+  });
+
+  it("follows the weekdays and merges schedules at the same minute", () => {
+    const s = settings({
+      schedules: [
+        schedule({ id: "a", days: [1, 2, 3, 4, 5] }),
+        schedule({ id: "b" }),
+        schedule({ id: "off", time: 9 * 60, enabled: false }),
+      ],
+    });
+    // Friday 2026-05-01 to Monday 2026-05-04
+    const list = upcomingReminders(s, [], at(2026, 5, 1, 0), { days: 4 });
+    expect(times(list)).toEqual(["1 8:00", "2 8:00", "3 8:00", "4 8:00"]);
+    expect(list.map((r) => r.scheduleId)).toEqual(["a", "b", "b", "a"]);
+  });
+
+  it("only returns reminders after `from`, up to the limit", () => {
+    const from = at(2026, 5, 4, 8);
+    expect(times(upcomingReminders(settings({}), [], from, { days: 2 }))).toEqual(["5 8:00"]);
+    expect(upcomingReminders(settings({}), [], from, { days: 7, limit: 2 })).toHaveLength(2);
+  });
+});
+
+describe("normalizeReminderSettings", () => {
+  it("replaces malformed parts with the defaults", () => {
+    expect(normalizeReminderSettings(null)).toBe(DEFAULT_REMINDER_SETTINGS);
+    const normalized = normalizeReminderSettings({
+      schedules: [
+        { id: "a", time: 60, days: [1, 9, 3], enabled: true },
+        { id: 2, time: 5 },
+      ],
+      quietHours: { enabled: true, start: 24 * 60 },
+      skipIfRecorded: "yes",
+    });
+    expect(normalized.schedules).toEqual([
+      { id: "a", label: "", time: 60, days: [1, 3], enabled: true },
+    ]);
+    expect(normalized.quietHours).toEqual({
+      enabled: true,
+      start: DEFAULT_REMINDER_SETTINGS.quietHours.start,
+      end: DEFAULT_REMINDER_SETTINGS.quietHours.end,
+    });
+    expect(normalized.skipIfRecorded).toBe(DEFAULT_REMINDER_SETTINGS.skipIfRecorded);
+  });
+});
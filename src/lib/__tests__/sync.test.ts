@@ -0,0 +1,344 @@
+import type { Note } from "../../types";
+import { createMemoryDav } from "../memoryDav";
+import type { MemoryDav } from "../memoryDav";
+import { recordChanges, syncJournal } from "../sync";
+import type { SyncResult } from "../sync";
+
+// Two devices syncing through the in-memory WebDAV server. Each device has its own
+// AsyncStorage (the change log) and notes folder; the file system is shared, keyed by
+// path.
+
+jest.mock("@react-native-async-storage/async-storage", () => {
+  const stores: Record<string, Map<string, string>> = {};
+  const store = () => {
+    const name = mockDevice.current;
+    return stores[name] || (stores[name] = new Map());
+  };
+  return {
+    getItem: async (key: string) => (store().has(key) ? store().get(key) : null),
+    setItem: async (key: string, value: string) => {
+      store().set(key, value);
+    },
+    removeItem: async (key: string) => {
+      store().delete(key);
+    },
+  };
+});
+
+jest.mock("expo-file-system", () => {
+  // mockFiles is read inside the functions: the factory runs before it is initialized
+  return {
+    cacheDirectory: "/cache/",
+    documentDirectory: "/doc/",
+    EncodingType: { Base64: "base64", UTF8: "utf8" },
+    readAsStringAsync: async (uri: string) => {
+      const data = mockFiles.get(uri);
+      if (data === undefined) throw new Error(`No file at ${uri}`);
+      return data;
+    },
+    writeAsStringAsync: async (uri: string, data: string) => {
+      mockFiles.set(uri, data);
+    },
+    getInfoAsync: async (uri: string) => ({ exists: mockFiles.has(uri) }),
+    makeDirectoryAsync: async () => {},
+    deleteAsync: async (uri: string) => {
+      for (const path of [...mockFiles.keys()]) {
+        if (path === uri || path.startsWith(uri.endsWith("/") ? uri : uri + "/")) {
+          mockFiles.delete(path);
+        }
+      }
+    },
+    moveAsync: async ({ from, to }: { from: string; to: string }) => {
+      const data = mockFiles.get(from);
+      if (data === undefined) throw new Error(`No file at ${from}`);
+      mockFiles.set(to, data);
+      mockFiles.delete(from);
+    },
+  };
+});
+
+const mockDevice = { current: "a" };
+const mockFiles = new Map<string, string>();
+
+const MANIFEST = "voice-journal/manifest.json";
+
+type Device = {
+  name: string;
+  dir: string;
+  notes: Note[];
+  // local edits: saves the list and stamps the change log, as the app does
+  save: (notes: Note[], at: number) => Promise<void>;
+  sync: (dav: MemoryDav, at: number) => Promise<SyncResult>;
+};
+
+function createDevice(name: string): Device {
+  const device: Device = {
+    name,
+    dir: `/${name}/voiceNotes/`,
+    notes: [],
+    async save(notes, at) {
+      mockDevice.current = name;
+      device.notes = notes;
+      await recordChanges(notes, at);
+    },
+    async sync(dav, at) {
+      mockDevice.current = name;
+      return syncJournal(device.notes, {
+        dav,
+        voiceDir: device.dir,
+        now: () => at,
+        apply: async (upserts, removals) => {
+          const replaced = new Set([...upserts, ...removals].map((n) => n.id));
+          device.notes = [...upserts, ...device.notes.filter((n) => !replaced.has(n.id))];
+        },
+      });
+    },
+  };
+  return device;
+}
+
+function recording(device: Device, id: string, title: string, audio: string): Note {
+  const uri = device.dir + id + ".m4a";
+  mockFiles.set(uri, Buffer.from(audio).toString("base64"));
+  return { id, kind: "audio", title, uri, createdAt: 1000, duration: 2000 };
+}
+
+function textEntry(id: string, title: string, body: string): Note {
+  return { id, kind: "text", title, body, uri: "", createdAt: 2000, duration: 0 };
+}
+
+function remoteNotes(dav: MemoryDav) {
+  const file = dav.files.get(MANIFEST);
+  if (!file) return {};
+  const manifest = JSON.parse(Buffer.from(file.data, "base64").toString("utf8"));
+  return manifest.notes as Record<string, { hash: string; note?: Note }>;
+}
+
+const titles = (device: Device) =>
+  Object.fromEntries(device.notes.map((n) => [n.id, n.title] as [string, string]));
+
+let dav: MemoryDav;
+let a: Device;
+let b: Device;
+let run = 0;
+
+beforeEach(async () => {
+  mockFiles.clear();
+  dav = createMemoryDav();
+  // fresh change logs for every test
+  run++;
+  a = createDevice(`a${run}`);
+  b = createDevice(`b${run}`);
+  await a.save(
+    [recording(a, "n1", "Morning", "first take"), textEntry("t1", "List", "- milk")],
+    10
+  );
+  await a.sync(dav, 20);
+  await b.sync(dav, 30);
+});
+
+describe("syncJournal", () => {
+  it("uploads the journal on the first sync and downloads it on another device", async () => {
+    expect(Object.keys(remoteNotes(dav)).sort()).toEqual(["n1", "t1"]);
+    // the text entry has no audio; the recording is uploaded once
+    const audio = [...dav.files.keys()].filter((p) => p.startsWith("voice-journal/audio/"));
+    expect(audio).toHaveLength(1);
+
+    expect(titles(b)).toEqual({ n1: "Morning", t1: "List" });
+    const n1 = b.notes.find((n) => n.id === "n1")!;
+    expect(n1.uri).toBe(b.dir + "n1.m4a");
+    expect(Buffer.from(mockFiles.get(n1.uri)!, "base64").toString()).toBe("first take");
+    expect(b.notes.find((n) => n.id === "t1")!.body).toBe("- milk");
+
+    // nothing left to do on either side
+    expect(await a.sync(dav, 40)).toEqual({
+      pushed: 0,
+      pulled: 0,
+      deleted: 0,
+      conflicts: 0,
+      skipped: 0,
+    });
+    expect((await b.sync(dav, 40)).pushed).toBe(0);
+  });
+
+  it("merges edits to different notes made on both devices", async () => {
+    await a.save(
+      a.notes.map((n) => (n.id === "n1" ? { ...n, title: "Morning (a)" } : n)),
+      100
+    );
+    await b.save(
+      b.notes.map((n) => (n.id === "t1" ? { ...n, body: "- milk\n- eggs" } : n)),
+      110
+    );
+    expect(await a.sync(dav, 120)).toMatchObject({ pushed: 1, pulled: 0, conflicts: 0 });
+    expect(await b.sync(dav, 130)).toMatchObject({ pushed: 1, pulled: 1, conflicts: 0 });
+    expect(await a.sync(dav, 140)).toMatchObject({ pushed: 0, pulled: 1, conflicts: 0 });
+
+    for (const device of [a, b]) {
+      expect(titles(device).n1).toBe("Morning (a)");
+      expect(device.notes.find((n) => n.id === "t1")!.body).toBe("- milk\n- eggs");
+    }
+  });
+
+  it("keeps the newer edit when both devices changed the same note", async () => {
+    await a.save(
+      a.notes.map((n) => (n.id === "n1" ? { ...n, title: "Older" } : n)),
+      100
+    );
+    await b.save(
+      b.notes.map((n) => (n.id === "n1" ? { ...n, title: "Newer" } : n)),
+      110
+    );
+
+    await a.sync(dav, 120);
+    expect(await b.sync(dav, 130)).toMatchObject({ pushed: 1, pulled: 0, conflicts: 1 });
+    expect(await a.sync(dav, 140)).toMatchObject({ pulled: 1, conflicts: 0 });
+    expect(titles(a).n1).toBe("Newer");
+    expect(remoteNotes(dav).n1.note!.title).toBe("Newer");
+  });
+
+  it("brings new audio over when a recording was replaced", async () => {
+    const edited = { ...a.notes.find((n) => n.id === "n1")!, duration: 1500 };
+    mockFiles.set(edited.uri, Buffer.from("trimmed take").toString("base64"));
+    await a.save([edited, ...a.notes.filter((n) => n.id !== "n1")], 100);
+    await a.sync(dav, 110);
+    await b.sync(dav, 120);
+
+    const audio = [...dav.files.keys()].filter((p) => p.startsWith("voice-journal/audio/"));
+    // the old file is removed from the server once nothing refers to it
+    expect(audio).toHaveLength(1);
+    expect(Buffer.from(mockFiles.get(b.dir + "n1.m4a")!, "base64").toString()).toBe("trimmed take");
+  });
+
+  it("leaves a note for the next sync when its audio arrives damaged", async () => {
+    const c = createDevice(`c${run}`);
+    const [path] = [...dav.files.keys()].filter((p) => p.startsWith("voice-journal/audio/"));
+    const intact = dav.files.get(path)!;
+    dav.files.set(path, { ...intact, data: Buffer.from("first ta").toString("base64") });
+
+    expect(await c.sync(dav, 100)).toMatchObject({ pulled: 1, skipped: 1 });
+    expect(titles(c)).toEqual({ t1: "List" });
+    expect(mockFiles.has(c.dir + "n1.m4a")).toBe(false);
+
+    dav.files.set(path, intact);
+    expect(await c.sync(dav, 110)).toMatchObject({ pulled: 1, skipped: 0 });
+    expect(titles(c).n1).toBe("Morning");
+    expect(Buffer.from(mockFiles.get(c.dir + "n1.m4a")!, "base64").toString()).toBe("first take");
+  });
+
+  it("lets an edit win over a delete made later on another device", async () => {
+    await b.save(
+      b.notes.map((n) => (n.id === "n1" ? { ...n, title: "Edited" } : n)),
+      100
+    );
+    await a.save(
+      a.notes.filter((n) => n.id !== "n1"),
+      200
+    );
+
+    await a.sync(dav, 210);
+    expect(remoteNotes(dav).n1.hash).toBe("deleted");
+    expect(await b.sync(dav, 220)).toMatchObject({ pushed: 1, conflicts: 1, deleted: 0 });
+    expect(await a.sync(dav, 230)).toMatchObject({ pulled: 1 });
+    expect(titles(a).n1).toBe("Edited");
+  });
+
+  it("lets an edit win over a delete that reached the server first", async () => {
+    await a.save(
+      a.notes.filter((n) => n.id !== "n1"),
+      100
+    );
+    await b.save(
+      b.notes.map((n) => (n.id === "n1" ? { ...n, title: "Edited" } : n)),
+      50
+    );
+
+    await b.sync(dav, 110);
+    // a's delete meets b's edit: the note comes back instead of being deleted remotely
+    expect(await a.sync(dav, 120)).toMatchObject({ pulled: 1, conflicts: 1, pushed: 0 });
+    expect(titles(a).n1).toBe("Edited");
+    expect(remoteNotes(dav).n1.note!.title).toBe("Edited");
+  });
+
+  it("moves notes deleted elsewhere out of the local list", async () => {
+    await a.save(
+      a.notes.filter((n) => n.id !== "t1"),
+      100
+    );
+    await a.sync(dav, 110);
+    expect(await b.sync(dav, 120)).toMatchObject({ deleted: 1 });
+    expect(Object.keys(titles(b))).toEqual(["n1"]);
+  });
+
+  it("plans again when another device commits the manifest first", async () => {
+    await a.save(
+      a.notes.map((n) => (n.id === "n1" ? { ...n, title: "From a" } : n)),
+      100
+    );
+    await b.save([...b.notes, textEntry("t2", "From b", "hello")], 100);
+
+    // b's sync commits while a is between reading and writing the manifest
+    const putText = dav.putText;
+    let manifestWrites = 0;
+    const racing: MemoryDav = {
+      ...dav,
+      async putText(path, text, etag) {
+        if (path === MANIFEST && manifestWrites++ === 0) {
+          const current = (await dav.getText(MANIFEST))!;
+          const manifest = JSON.parse(current.text);
+          const remote = remoteNotes(dav);
+          manifest.notes.t2 = {
+            hash: "from-b",
+            modifiedAt: 105,
+            note: { ...textEntry("t2", "From b", "hello") },
+          };
+          manifest.notes.n1 = remote.n1;
+          await putText(MANIFEST, JSON.stringify(manifest), current.etag);
+        }
+        return putText(path, text, etag);
+      },
+    };
+
+    expect(await a.sync(racing, 110)).toMatchObject({ pushed: 1, pulled: 1 });
+    expect(manifestWrites).toBe(2);
+    expect(Object.keys(remoteNotes(dav)).sort()).toEqual(["n1", "t1", "t2"]);
+    expect(remoteNotes(dav).n1.note!.title).toBe("From a");
+    expect(titles(a).t2).toBe("From b");
+  });
+
+  it("gives up after repeated ETag conflicts", async () => {
+    await a.save(
+      a.notes.map((n) => (n.id === "n1" ? { ...n, title: "From a" } : n)),
+      100
+    );
+    const putText = dav.putText;
+    const busy: MemoryDav = {
+      ...dav,
+      async putText(path, text, etag) {
+        // someone else commits every time
+        const current = (await dav.getText(MANIFEST))!;
+        await putText(MANIFEST, current.text, current.etag);
+        return putText(path, text, etag);
+      },
+    };
+    await expect(a.sync(busy, 110)).rejects.toThrow("The file was changed on the server");
+    expect(remoteNotes(dav).n1.note!.title).toBe("Morning");
+  });
+
+  it("leaves the server unchanged when the connection drops during a push", async () => {
+    await a.save([...a.notes, recording(a, "n2", "Evening", "second take")], 100);
+    const before = dav.files.get(MANIFEST)!.etag;
+    const flaky = createMemoryDav({ failOn: (method) => method === "MOVE" });
+    // same server contents, failing moves
+    dav.files.forEach((v, k) => flaky.files.set(k, v));
+    dav.folders.forEach((f) => flaky.folders.add(f));
+
+    await expect(a.sync(flaky, 110)).rejects.toThrow("Network request failed");
+    expect(flaky.files.get(MANIFEST)!.etag).toBe(before);
+    expect(Object.keys(remoteNotes(flaky))).not.toContain("n2");
+
+    // the next run picks it up
+    expect(await a.sync(dav, 120)).toMatchObject({ pushed: 1 });
+    expect(Object.keys(remoteNotes(dav))).toContain("n2");
+  });
+});
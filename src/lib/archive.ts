@@ -0,0 +1,179 @@
+import * as FileSystem from "expo-file-system";
+import appConfig from "../../app.json";
+import type { Note } from "../types";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import { sha256Hex } from "./sha256";
+import { SCHEMA_VERSION, migrate, validateNote } from "./notesRepository";
+import { readFileBytes, writeFileBytes } from "./audioFile";
+import { isTextEntry } from "./entries";
+import { openText, sealText, sealedKeyId } from "./crypto";
+import { LockedError, currentKey, keyFor, lockConfig, unwrapKey } from "./vault";
+import type { PasscodeLock } from "./vault";
+
+// A backup archive is one JSON file: a manifest describing the notes, plus every audio
+// file from the voice notes folder as a base64 entry with its SHA-256 checksum.
+// Note uris are stored relative ("voiceNotes/<file>") so the archive is portable
+// between devices; they are rewritten to the local documentDirectory on restore.
+//
+// While a passcode is set the whole archive is sealed with the data key, and the key is
+// stored in it wrapped with the passcode, so the backup can be opened on another device
+// (or after the passcode changed) by entering the passcode it was made with.
+
+export const ARCHIVE_FORMAT = "voice-journal-archive";
+export const ARCHIVE_FORMAT_VERSION = 1;
+const AUDIO_PREFIX = "voiceNotes/";
+
+export type ArchiveManifest = {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  createdAt: number;
+  // notes schema the manifest's notes were written with (absent before it was versioned)
+  schemaVersion?: number;
+  notes: Note[];
+};
+
+export type ArchiveEntry = {
+  path: string;
+  size: number;
+  sha256: string;
+  data: string; // base64
+};
+
+export type Archive = {
+  manifest: ArchiveManifest;
+  entries: ArchiveEntry[];
+};
+
+type SealedArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  formatVersion: number;
+  sealed: PasscodeLock & { data: string };
+};
+
+export function fileName(uri: string) {
+  return uri.slice(uri.lastIndexOf("/") + 1);
+}
+
+// The note with its audio file in `dir`. Text entries have no file and keep an empty uri.
+export function relocate(note: Note, dir: string): Note {
+  return isTextEntry(note) ? note : { ...note, uri: dir + fileName(note.uri) };
+}
+
+export async function createArchive(notes: Note[], voiceDir: string): Promise<Archive> {
+  const entries: ArchiveEntry[] = [];
+  const files = await FileSystem.readDirectoryAsync(voiceDir).catch(() => [] as string[]);
+  for (const name of files) {
+    const bytes = await readFileBytes(voiceDir + name);
+    entries.push({
+      path: AUDIO_PREFIX + name,
+      size: bytes.length,
+      sha256: sha256Hex(bytes),
+      data: bytesToBase64(bytes),
+    });
+  }
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      appVersion: appConfig.expo.version,
+      createdAt: Date.now(),
+      schemaVersion: SCHEMA_VERSION,
+      notes: notes.map((n) => relocate(n, AUDIO_PREFIX)),
+    },
+    entries,
+  };
+}
+
+export function serializeArchive(archive: Archive): string {
+  const json = JSON.stringify(archive);
+  const config = lockConfig();
+  const key = currentKey();
+  if (!config || !key) return json;
+  const sealed: SealedArchive = {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    sealed: {
+      salt: config.salt,
+      iterations: config.iterations,
+      wrappedKey: config.wrappedKey,
+      data: sealText(key, json),
+    },
+  };
+  return JSON.stringify(sealed);
+}
+
+// Opens a sealed backup with a loaded key, or with the passcode it was made with.
+// Throws LockedError when neither is available.
+function unsealArchive({ sealed }: SealedArchive, passcode?: string) {
+  // the key id is in the header, no need to decode the whole payload
+  const id = sealedKeyId(base64ToBytes(sealed.data.slice(0, 80)));
+  let key = id ? keyFor(id) : null;
+  if (!key && passcode) {
+    try {
+      key = unwrapKey(passcode, sealed);
+    } catch {
+      throw new Error("Wrong passcode for this backup");
+    }
+  }
+  if (!key) throw new LockedError("This backup is protected by a passcode");
+  return openText(key, sealed.data);
+}
+
+// Parses a backup file. Older backups were a bare JSON array of notes; those are
+// accepted as an archive without audio entries.
+export function parseArchive(content: string, passcode?: string): Archive {
+  let parsed = JSON.parse(content);
+  if (parsed && parsed.format === ARCHIVE_FORMAT && parsed.sealed) {
+    parsed = JSON.parse(unsealArchive(parsed, passcode));
+  }
+  if (Array.isArray(parsed)) {
+    return {
+      manifest: {
+        format: ARCHIVE_FORMAT,
+        formatVersion: 0,
+        appVersion: "unknown",
+        createdAt: 0,
+        notes: parsed as Note[],
+      },
+      entries: [],
+    };
+  }
+  const manifest = parsed && parsed.manifest;
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.notes)) {
+    throw new Error("Not a voice journal backup");
+  }
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(`Backup format ${manifest.formatVersion} is newer than this app supports`);
+  }
+  return { manifest, entries: Array.isArray(parsed.entries) ? parsed.entries : [] };
+}
+
+// Checks every entry against its checksum. Valid entries are keyed by file name.
+export function verifyEntries(archive: Archive) {
+  const valid = new Map<string, ArchiveEntry>();
+  const corrupt: string[] = [];
+  for (const entry of archive.entries) {
+    const bytes = base64ToBytes(entry.data || "");
+    if (bytes.length !== entry.size || sha256Hex(bytes) !== entry.sha256) {
+      corrupt.push(entry.path);
+    } else {
+      valid.set(fileName(entry.path), entry);
+    }
+  }
+  return { valid, corrupt };
+}
+
+// The archive's valid notes with their uris rewritten into `voiceDir`.
+export function localizeNotes(archive: Archive, voiceDir: string): Note[] {
+  const notes: Note[] = [];
+  for (const raw of migrate(archive.manifest.notes, archive.manifest.schemaVersion || 1)) {
+    const n = validateNote(raw);
+    if (typeof n !== "string") notes.push(relocate(n, voiceDir));
+  }
+  return notes;
+}
+
+export async function writeEntry(entry: ArchiveEntry, uri: string) {
+  await writeFileBytes(uri, base64ToBytes(entry.data));
+}
@@ -0,0 +1,99 @@
+import * as FileSystem from "expo-file-system";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import { encodeWav, isWav, parseWav, reverseFrames } from "./wav";
+import type { WavData } from "./wav";
+import { lockConfig, openBytes, sealBytes } from "./vault";
+
+// Decrypted copies handed to the player while a passcode is set; cleared on lock.
+const PLAYBACK_CACHE = FileSystem.cacheDirectory + "playback/";
+
+async function readRawBytes(uri: string): Promise<Uint8Array> {
+  const b64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  return base64ToBytes(b64);
+}
+
+async function writeRawBytes(uri: string, bytes: Uint8Array) {
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(bytes), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+}
+
+// Reads and writes plain bytes; files are sealed at rest while a passcode is set.
+export async function readFileBytes(uri: string): Promise<Uint8Array> {
+  return openBytes(await readRawBytes(uri));
+}
+
+export async function writeFileBytes(uri: string, bytes: Uint8Array) {
+  await writeRawBytes(uri, sealBytes(bytes));
+}
+
+// Rewrites a file with the current key (or as plain bytes once the passcode is removed).
+export async function resealFile(uri: string) {
+  await writeFileBytes(uri, await readFileBytes(uri));
+}
+
+// A uri the player can read: the file itself, or a decrypted copy in the cache.
+export async function playableUri(uri: string, name: string) {
+  if (!lockConfig()) return uri;
+  await FileSystem.makeDirectoryAsync(PLAYBACK_CACHE, { intermediates: true }).catch(() => {});
+  const dest = PLAYBACK_CACHE + name;
+  await writeRawBytes(dest, await readFileBytes(uri));
+  return dest;
+}
+
+export async function clearPlaybackCache() {
+  await FileSystem.deleteAsync(PLAYBACK_CACHE, { idempotent: true });
+}
+
+// Reads a WAV file, or returns null when the file is in a format we can't decode.
+export async function readWavFile(uri: string): Promise<WavData | null> {
+  const bytes = await readFileBytes(uri);
+  if (!isWav(bytes)) return null;
+  return parseWav(bytes);
+}
+
+export async function writeWavFile(uri: string, wav: WavData) {
+  await writeFileBytes(uri, encodeWav(wav));
+}
+
+// Writes a WAV file unsealed, for files that leave the app (see journalExport).
+export async function exportWavFile(uri: string, wav: WavData) {
+  await writeRawBytes(uri, encodeWav(wav));
+}
+
+// Location of the reversed copy of an audio file:
+// convention: if uri is .../abcd.wav, reversed file is .../abcd_rev.wav
+export function reversedUriFor(uri: string) {
+  if (!uri) return null;
+  const i = uri.lastIndexOf(".");
+  const base = uri.slice(0, i);
+  const ext = uri.slice(i + 1);
+  return base + "_rev." + ext;
+}
+
+// Makes sure a reversed copy of `uri` exists at `revUri`, generating it from the samples
+// if needed. Returns false if the source can't be reversed (e.g. compressed m4a).
+export async function ensureReversedFile(uri: string, revUri: string): Promise<boolean> {
+  const info = await FileSystem.getInfoAsync(revUri);
+  if (info.exists) return true;
+  const wav = await readWavFile(uri);
+  if (!wav) return false;
+  await writeWavFile(revUri, reverseFrames(wav));
+  return true;
+}
+
+// Appends recorder segments into the first one, deletes the rest and returns the
+// first's uri. Only valid for streams of self-contained frames (AAC in ADTS): the
+// files are plain recorder output and are joined byte for byte.
+export async function joinSegments(uris: string[]) {
+  const parts = await Promise.all(uris.map(readRawBytes));
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  await writeRawBytes(uris[0], joined);
+  for (const uri of uris.slice(1)) await FileSystem.deleteAsync(uri, { idempotent: true });
+  return uris[0];
+}
@@ -0,0 +1,42 @@
+// Minimal base64 codec. expo-file-system only reads/writes binary files as base64 strings,
+// and Hermes does not ship atob/btoa, so we convert by hand.
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const LOOKUP = new Uint8Array(128);
+for (let i = 0; i < ALPHABET.length; i++) LOOKUP[ALPHABET.charCodeAt(i)] = i;
+
+export function base64ToBytes(b64: string): Uint8Array {
+  const clean = b64.replace(/[^A-Za-z0-9+/]/g, "");
+  const out = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let o = 0;
+  for (let i = 0; i < clean.length; i += 4) {
+    const a = LOOKUP[clean.charCodeAt(i)];
+    const b = LOOKUP[clean.charCodeAt(i + 1)];
+    const c = i + 2 < clean.length ? LOOKUP[clean.charCodeAt(i + 2)] : 0;
+    const d = i + 3 < clean.length ? LOOKUP[clean.charCodeAt(i + 3)] : 0;
+    out[o++] = (a << 2) | (b >> 4);
+    if (i + 2 < clean.length) out[o++] = ((b & 15) << 4) | (c >> 2);
+    if (i + 3 < clean.length) out[o++] = ((c & 3) << 6) | d;
+  }
+  return out.subarray(0, o);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  let chunk = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    chunk += ALPHABET[a >> 2] + ALPHABET[((a & 3) << 4) | (b >> 4)];
+    chunk += i + 1 < bytes.length ? ALPHABET[((b & 15) << 2) | (c >> 6)] : "=";
+    chunk += i + 2 < bytes.length ? ALPHABET[c & 63] : "=";
+    // flush periodically so we don't build one huge string by repeated concatenation
+    if (chunk.length >= 8192) {
+      parts.push(chunk);
+      chunk = "";
+    }
+  }
+  parts.push(chunk);
+  return parts.join("");
+}
@@ -0,0 +1,80 @@
+import type { Note } from "../types";
+import { formatDay, startOfDay } from "./query";
+
+// Day-based views of the journal. Days are local-time YYYY-MM-DD keys (see formatDay),
+// so a note recorded just after midnight belongs to the day it was recorded on.
+
+export type DaySummary = {
+  day: string;
+  count: number;
+  durationMs: number;
+};
+
+export type DaySection = {
+  day: string;
+  // local midnight of the day, for display
+  start: number;
+  durationMs: number;
+  data: Note[];
+};
+
+export function summarizeDays(notes: Note[]): Map<string, DaySummary> {
+  const days = new Map<string, DaySummary>();
+  for (const n of notes) {
+    const day = formatDay(n.createdAt);
+    const s = days.get(day) || { day, count: 0, durationMs: 0 };
+    s.count += 1;
+    s.durationMs += n.duration || 0;
+    days.set(day, s);
+  }
+  return days;
+}
+
+// Groups notes into one section per day, keeping the order of the input list.
+export function groupByDay(notes: Note[]): DaySection[] {
+  const sections: DaySection[] = [];
+  const byDay = new Map<string, DaySection>();
+  for (const n of notes) {
+    const day = formatDay(n.createdAt);
+    let section = byDay.get(day);
+    if (!section) {
+      section = { day, start: startOfDay(n.createdAt), durationMs: 0, data: [] };
+      byDay.set(day, section);
+      sections.push(section);
+    }
+    section.data.push(n);
+    section.durationMs += n.duration || 0;
+  }
+  return sections;
+}
+
+// Weeks of a month (month is 0-based), Sunday first. Cells outside the month are null.
+export function monthGrid(year: number, month: number): (string | null)[][] {
+  const first = new Date(year, month, 1);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const cells: (string | null)[] = Array(first.getDay()).fill(null);
+  for (let d = 1; d <= daysInMonth; d++) cells.push(formatDay(new Date(year, month, d).getTime()));
+  while (cells.length % 7) cells.push(null);
+  const weeks: (string | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+}
+
+export function shiftMonth(year: number, month: number, delta: number) {
+  const d = new Date(year, month + delta, 1);
+  return { year: d.getFullYear(), month: d.getMonth() };
+}
+
+// Consecutive days with at least one note, ending today. A streak is not broken until
+// a whole day passes without an entry, so it still counts from yesterday if today is empty.
+export function currentStreak(notes: Note[], now = Date.now()): number {
+  const days = new Set(notes.map((n) => formatDay(n.createdAt)));
+  const cursor = new Date(startOfDay(now));
+  if (!days.has(formatDay(cursor.getTime()))) cursor.setDate(cursor.getDate() - 1);
+  let streak = 0;
+  while (days.has(formatDay(cursor.getTime()))) {
+    streak++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+}
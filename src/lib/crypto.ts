@@ -0,0 +1,202 @@
+import { getRandomBytes } from "expo-crypto";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import { sha256, toHex } from "./sha256";
+
+// Authenticated encryption for data at rest, in plain TypeScript like the rest of the
+// binary handling: ChaCha20 (RFC 8439) for confidentiality, HMAC-SHA256 over the whole
+// sealed blob for integrity (encrypt-then-MAC), PBKDF2-HMAC-SHA256 to turn a passcode
+// into a key. Only random bytes come from the platform.
+//
+// Sealed layout: "VJE1" | key id (8) | nonce (12) | ciphertext | tag (32)
+
+export const KEY_LENGTH = 32;
+const MAGIC = [0x56, 0x4a, 0x45, 0x31]; // "VJE1"
+const KEY_ID_LENGTH = 8;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 32;
+const HEADER_LENGTH = MAGIC.length + KEY_ID_LENGTH + NONCE_LENGTH;
+
+export function randomBytes(count: number): Uint8Array {
+  return getRandomBytes(count);
+}
+
+function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let o = 0;
+  for (const p of parts) {
+    out.set(p, o);
+    o += p.length;
+  }
+  return out;
+}
+
+export function utf8ToBytes(text: string): Uint8Array {
+  const out: number[] = [];
+  for (const ch of text) {
+    const c = ch.codePointAt(0)!;
+    if (c < 0x80) out.push(c);
+    else if (c < 0x800) out.push(0xc0 | (c >> 6), 0x80 | (c & 63));
+    else if (c < 0x10000) out.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63));
+    else {
+      out.push(0xf0 | (c >> 18), 0x80 | ((c >> 12) & 63), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63));
+    }
+  }
+  return new Uint8Array(out);
+}
+
+export function bytesToUtf8(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  let codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const b = bytes[i];
+    let c: number;
+    if (b < 0x80) {
+      c = b;
+      i += 1;
+    } else if (b < 0xe0) {
+      c = ((b & 31) << 6) | (bytes[i + 1] & 63);
+      i += 2;
+    } else if (b < 0xf0) {
+      c = ((b & 15) << 12) | ((bytes[i + 1] & 63) << 6) | (bytes[i + 2] & 63);
+      i += 3;
+    } else {
+      c =
+        ((b & 7) << 18) |
+        ((bytes[i + 1] & 63) << 12) |
+        ((bytes[i + 2] & 63) << 6) |
+        (bytes[i + 3] & 63);
+      i += 4;
+    }
+    codes.push(c);
+    // String.fromCodePoint takes its arguments on the stack, so flush in chunks
+    if (codes.length >= 4096) {
+      parts.push(String.fromCodePoint(...codes));
+      codes = [];
+    }
+  }
+  parts.push(String.fromCodePoint(...codes));
+  return parts.join("");
+}
+
+export function hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? sha256(key) : key);
+  const inner = block.map((b) => b ^ 0x36);
+  const outer = block.map((b) => b ^ 0x5c);
+  return sha256(concat(outer, sha256(concat(inner, data))));
+}
+
+export function pbkdf2(
+  passcode: string,
+  salt: Uint8Array,
+  iterations: number,
+  length = KEY_LENGTH
+): Uint8Array {
+  const password = utf8ToBytes(passcode);
+  const out = new Uint8Array(length);
+  for (let block = 1, o = 0; o < length; block++, o += 32) {
+    const index = new Uint8Array([block >>> 24, block >>> 16, block >>> 8, block]);
+    let u = hmacSha256(password, concat(salt, index));
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmacSha256(password, u);
+      for (let j = 0; j < t.length; j++) t[j] ^= u[j];
+    }
+    out.set(t.subarray(0, Math.min(32, length - o)), o);
+  }
+  return out;
+}
+
+function rotl(x: number, n: number) {
+  return (x << n) | (x >>> (32 - n));
+}
+
+function quarterRound(s: Uint32Array, a: number, b: number, c: number, d: number) {
+  s[a] += s[b];
+  s[d] = rotl(s[d] ^ s[a], 16);
+  s[c] += s[d];
+  s[b] = rotl(s[b] ^ s[c], 12);
+  s[a] += s[b];
+  s[d] = rotl(s[d] ^ s[a], 8);
+  s[c] += s[d];
+  s[b] = rotl(s[b] ^ s[c], 7);
+}
+
+// XORs `data` with the ChaCha20 keystream; encrypting and decrypting are the same.
+export function chacha20(key: Uint8Array, nonce: Uint8Array, data: Uint8Array, counter = 1) {
+  const keyView = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const nonceView = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+  const init = new Uint32Array(16);
+  init.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574]);
+  for (let i = 0; i < 8; i++) init[4 + i] = keyView.getUint32(i * 4, true);
+  for (let i = 0; i < 3; i++) init[13 + i] = nonceView.getUint32(i * 4, true);
+
+  const out = new Uint8Array(data.length);
+  const s = new Uint32Array(16);
+  const stream = new Uint8Array(64);
+  const streamView = new DataView(stream.buffer);
+  for (let offset = 0; offset < data.length; offset += 64) {
+    init[12] = counter++;
+    s.set(init);
+    for (let round = 0; round < 10; round++) {
+      quarterRound(s, 0, 4, 8, 12);
+      quarterRound(s, 1, 5, 9, 13);
+      quarterRound(s, 2, 6, 10, 14);
+      quarterRound(s, 3, 7, 11, 15);
+      quarterRound(s, 0, 5, 10, 15);
+      quarterRound(s, 1, 6, 11, 12);
+      quarterRound(s, 2, 7, 8, 13);
+      quarterRound(s, 3, 4, 9, 14);
+    }
+    for (let i = 0; i < 16; i++) streamView.setUint32(i * 4, (s[i] + init[i]) >>> 0, true);
+    const end = Math.min(64, data.length - offset);
+    for (let i = 0; i < end; i++) out[offset + i] = data[offset + i] ^ stream[i];
+  }
+  return out;
+}
+
+// Sub-keys, so the same key is never used both to encrypt and to authenticate.
+function subKey(key: Uint8Array, purpose: string) {
+  return hmacSha256(key, utf8ToBytes(purpose));
+}
+
+// Short public identifier of a key, stored in sealed data so the right key can be picked.
+export function keyId(key: Uint8Array) {
+  return toHex(subKey(key, "key-id").subarray(0, KEY_ID_LENGTH));
+}
+
+export function isSealed(bytes: Uint8Array) {
+  return bytes.length >= HEADER_LENGTH + TAG_LENGTH && MAGIC.every((b, i) => bytes[i] === b);
+}
+
+export function sealedKeyId(bytes: Uint8Array) {
+  return isSealed(bytes) ? toHex(bytes.subarray(MAGIC.length, MAGIC.length + KEY_ID_LENGTH)) : null;
+}
+
+export function seal(key: Uint8Array, plain: Uint8Array): Uint8Array {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const id = subKey(key, "key-id").subarray(0, KEY_ID_LENGTH);
+  const body = concat(new Uint8Array(MAGIC), id, nonce, chacha20(subKey(key, "enc"), nonce, plain));
+  return concat(body, hmacSha256(subKey(key, "mac"), body));
+}
+
+export function open(key: Uint8Array, sealed: Uint8Array): Uint8Array {
+  if (!isSealed(sealed)) throw new Error("Data is not encrypted");
+  const body = sealed.subarray(0, sealed.length - TAG_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const expected = hmacSha256(subKey(key, "mac"), body);
+  // compare without an early exit
+  let diff = 0;
+  for (let i = 0; i < TAG_LENGTH; i++) diff |= tag[i] ^ expected[i];
+  if (diff !== 0) throw new Error("Wrong key or corrupted data");
+  const nonce = body.subarray(HEADER_LENGTH - NONCE_LENGTH, HEADER_LENGTH);
+  return chacha20(subKey(key, "enc"), nonce, body.subarray(HEADER_LENGTH));
+}
+
+export function sealText(key: Uint8Array, text: string) {
+  return bytesToBase64(seal(key, utf8ToBytes(text)));
+}
+
+export function openText(key: Uint8Array, b64: string) {
+  return bytesToUtf8(open(key, base64ToBytes(b64)));
+}
@@ -0,0 +1,203 @@
+import * as FileSystem from "expo-file-system";
+import appConfig from "../../app.json";
+import { isRecord } from "./guards";
+import { createSerialQueue } from "./serialQueue";
+
+// Diagnostics log. Entries are kept in a ring buffer and written to a file in the
+// document folder, so errors from earlier sessions can still be looked at (Settings >
+// Diagnostics) or attached to feedback. Only labels and error text are logged, never note
+// content; the file is not encrypted, even when a passcode is set.
+
+const LOG_FILE = FileSystem.documentDirectory + "diagnostics.json";
+const MAX_ENTRIES = 500;
+// size cap of the file; the oldest entries are dropped first
+const MAX_BYTES = 64 * 1024;
+const MAX_DETAIL = 2000;
+// info and debug entries are written in batches; warnings and errors right away
+const FLUSH_DELAY_MS = 2000;
+// size cap of a report; it is stored with feedback, so older entries are left out
+const MAX_REPORT_CHARS = 16 * 1024;
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogEntry = {
+  at: number;
+  level: LogLevel;
+  message: string;
+  // error text or other details
+  detail?: string;
+};
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+let entries: LogEntry[] = [];
+let loaded: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+function describe(value: unknown) {
+  if (value === undefined) return undefined;
+  let text: string;
+  if (value instanceof Error) {
+    // the message and the top of the stack are enough to find the call site
+    const stack = (value.stack || "").split("\n").slice(1, 4).join("\n");
+    text = `${value.name}: ${value.message}${stack ? "\n" + stack : ""}`;
+  } else if (typeof value === "string") {
+    text = value;
+  } else {
+    try {
+      text = JSON.stringify(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > MAX_DETAIL ? text.slice(0, MAX_DETAIL) + "…" : text;
+}
+
+function isEntry(raw: unknown): raw is LogEntry {
+  return (
+    isRecord(raw) &&
+    typeof raw.at === "number" &&
+    LOG_LEVELS.some((l) => l === raw.level) &&
+    typeof raw.message === "string" &&
+    (raw.detail === undefined || typeof raw.detail === "string")
+  );
+}
+
+// Drops the oldest entries until the list fits both caps.
+export function capEntries(list: LogEntry[], maxEntries = MAX_ENTRIES, maxBytes = MAX_BYTES) {
+  let kept = list.slice(-maxEntries);
+  let size = kept.reduce((sum, e) => sum + JSON.stringify(e).length + 1, 2);
+  let drop = 0;
+  while (size > maxBytes && drop < kept.length) {
+    size -= JSON.stringify(kept[drop]).length + 1;
+    drop++;
+  }
+  if (drop > 0) kept = kept.slice(drop);
+  return kept;
+}
+
+// Reads what earlier sessions left, once; entries logged before that stay after them.
+function ensureLoaded() {
+  if (!loaded) {
+    loaded = (async () => {
+      try {
+        const info = await FileSystem.getInfoAsync(LOG_FILE);
+        if (!info.exists) return;
+        const parsed = JSON.parse(await FileSystem.readAsStringAsync(LOG_FILE));
+        const saved = Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+        entries = capEntries([...saved, ...entries]);
+      } catch {
+        // an unreadable log is started over
+      }
+    })();
+  }
+  return loaded;
+}
+
+// file writes run one at a time
+const serialized = createSerialQueue();
+
+export function flushLog() {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+  return serialized(async () => {
+    await ensureLoaded();
+    await FileSystem.writeAsStringAsync(LOG_FILE, JSON.stringify(entries));
+  }).catch((e) => {
+    if (__DEV__) console.log("write diagnostics err", e);
+  });
+}
+
+export function log(level: LogLevel, message: string, detail?: unknown) {
+  if (__DEV__) {
+    if (detail === undefined) console.log(`[${level}] ${message}`);
+    else console.log(`[${level}] ${message}`, detail);
+  }
+  const entry: LogEntry = { at: Date.now(), level, message };
+  const text = describe(detail);
+  if (text !== undefined) entry.detail = text;
+  entries = capEntries([...entries, entry]);
+  listeners.forEach((listener) => listener());
+  if (level === "warn" || level === "error") {
+    flushLog();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flushLog, FLUSH_DELAY_MS);
+  }
+}
+
+export function logDebug(message: string, detail?: unknown) {
+  log("debug", message, detail);
+}
+
+export function logInfo(message: string, detail?: unknown) {
+  log("info", message, detail);
+}
+
+export function logWarn(message: string, detail?: unknown) {
+  log("warn", message, detail);
+}
+
+export function logError(message: string, detail?: unknown) {
+  log("error", message, detail);
+}
+
+// Called when an entry is logged or the log is cleared. Returns the unsubscribe function.
+export function subscribeLog(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Entries of this and earlier sessions, oldest first.
+export async function recentLog(limit = MAX_ENTRIES) {
+  await ensureLoaded();
+  return entries.slice(-limit);
+}
+
+export async function clearLog() {
+  // read first, so the flush does not bring back what the file held
+  await ensureLoaded();
+  entries = [];
+  listeners.forEach((listener) => listener());
+  return flushLog();
+}
+
+export function formatEntry(entry: LogEntry) {
+  const line = `${new Date(entry.at).toISOString()} ${entry.level.toUpperCase()} ${entry.message}`;
+  return entry.detail ? `${line}\n  ${entry.detail.replace(/\n/g, "\n  ")}` : line;
+}
+
+export type DeviceInfo = {
+  os: string;
+  osVersion: string | number;
+  // device model where the platform tells it
+  model?: string;
+};
+
+export function deviceSummary(device: DeviceInfo) {
+  const model = device.model ? ` (${device.model})` : "";
+  return [
+    `App: ${appConfig.expo.name} ${appConfig.expo.version}, Expo SDK ${appConfig.expo.sdkVersion}`,
+    `Device: ${device.os} ${device.osVersion}${model}`,
+  ].join("\n");
+}
+
+// Device summary and the most recent entries as plain text, for feedback and sharing.
+export async function diagnosticsReport(
+  device: DeviceInfo,
+  limit = 100,
+  maxChars = MAX_REPORT_CHARS
+) {
+  const header = [deviceSummary(device), `Generated: ${new Date().toISOString()}`, ""].join("\n");
+  const lines: string[] = [];
+  let size = header.length;
+  for (const entry of (await recentLog(limit)).reverse()) {
+    const line = formatEntry(entry);
+    if (size + line.length + 1 > maxChars) break;
+    lines.unshift(line);
+    size += line.length + 1;
+  }
+  return [header, ...lines].join("\n");
+}
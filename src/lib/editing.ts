@@ -0,0 +1,93 @@
+import * as FileSystem from "expo-file-system";
+import type { Bookmark, Note } from "../types";
+import { readWavFile, reversedUriFor, writeWavFile } from "./audioFile";
+import { decodeMono, durationMillis, msToFrame, sliceFrames } from "./wav";
+import type { WavData } from "./wav";
+import { computePeaks } from "./waveform";
+import { startOfDay } from "./query";
+
+// Trim and split for WAV notes. Samples are rewritten in TypeScript; the caller saves
+// the returned notes. Derived data (peaks) is recomputed, and data that no longer lines
+// up with the audio (transcript, cached reversed file) is dropped; the caller queues
+// the transcription again.
+// Bookmarks follow the audio they point into.
+
+async function readEditable(note: Note): Promise<WavData> {
+  const wav = await readWavFile(note.uri);
+  if (!wav) throw new Error("Only WAV recordings can be edited.");
+  return wav;
+}
+
+async function writePart(note: Note, part: WavData, uri: string): Promise<Note> {
+  await writeWavFile(uri, part);
+  const { transcript, ...rest } = note;
+  return { ...rest, uri, duration: durationMillis(part), peaks: computePeaks(decodeMono(part)) };
+}
+
+// bookmarks inside [fromMs, toMs), moved so fromMs becomes 0
+function shiftBookmarks(bookmarks: Bookmark[] | undefined, fromMs: number, toMs: number) {
+  return (bookmarks || [])
+    .filter((b) => b.positionMs >= fromMs && b.positionMs < toMs)
+    .map((b) => ({ ...b, positionMs: b.positionMs - fromMs }));
+}
+
+async function dropReversed(note: Note) {
+  const rev = reversedUriFor(note.uri);
+  if (rev) await FileSystem.deleteAsync(rev, { idempotent: true });
+}
+
+// Keeps only [inMs, outMs) of the note, rewriting its file in place.
+export async function trimNote(note: Note, inMs: number, outMs: number): Promise<Note> {
+  const wav = await readEditable(note);
+  if (outMs - inMs < 100) throw new Error("Selection is too short.");
+  const part = sliceFrames(wav, msToFrame(wav, inMs), msToFrame(wav, outMs));
+  await dropReversed(note);
+  return writePart(
+    { ...note, bookmarks: shiftBookmarks(note.bookmarks, inMs, outMs) },
+    part,
+    note.uri
+  );
+}
+
+function secondPartDate(createdAt: number, offsetMs: number) {
+  const endOfDay = new Date(startOfDay(createdAt));
+  endOfDay.setDate(endOfDay.getDate() + 1);
+  return Math.min(createdAt + offsetMs, endOfDay.getTime() - 1);
+}
+
+// Splits the [inMs, outMs) selection at `atMs`. The first part stays in the original
+// note; the second becomes a new note written to `voiceDir`, dated by its offset. The
+// offset stops at the last millisecond of the recording's day, so both parts stay on it.
+export async function splitNote(
+  note: Note,
+  atMs: number,
+  inMs: number,
+  outMs: number,
+  newId: string,
+  voiceDir: string
+): Promise<[Note, Note]> {
+  const wav = await readEditable(note);
+  if (atMs - inMs < 100 || outMs - atMs < 100)
+    throw new Error("Move the playhead inside the selection.");
+  const first = sliceFrames(wav, msToFrame(wav, inMs), msToFrame(wav, atMs));
+  const second = sliceFrames(wav, msToFrame(wav, atMs), msToFrame(wav, outMs));
+  await dropReversed(note);
+
+  const a = await writePart(
+    { ...note, title: `${note.title} (1)`, bookmarks: shiftBookmarks(note.bookmarks, inMs, atMs) },
+    first,
+    note.uri
+  );
+  const b = await writePart(
+    {
+      ...note,
+      id: newId,
+      title: `${note.title} (2)`,
+      createdAt: secondPartDate(note.createdAt, atMs - inMs),
+      bookmarks: shiftBookmarks(note.bookmarks, atMs, outMs),
+    },
+    second,
+    voiceDir + newId + ".wav"
+  );
+  return [a, b];
+}
@@ -0,0 +1,13 @@
+import type { Note } from "../types";
+
+// Text entries are notes without audio: `kind` is "text", `uri` is empty and `duration`
+// is 0, and what was written is in `body`. Everything that works on the audio file
+// (playback, trim, transcription, backup and sync of the file) leaves them out.
+
+export function isTextEntry(note: Pick<Note, "kind">) {
+  return note.kind === "text";
+}
+
+export function createTextEntry(id: string, title: string, body: string, now = Date.now()): Note {
+  return { id, kind: "text", title, body, uri: "", createdAt: now, duration: 0 };
+}
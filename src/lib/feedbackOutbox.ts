@@ -0,0 +1,265 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import appConfig from "../../app.json";
+import { isRecord } from "./guards";
+import { createSerialQueue } from "./serialQueue";
+
+// Feedback outbox. Entries are saved first and sent to the configured endpoint in the
+// background; a failed send is retried with backoff when the app starts, comes back to
+// the foreground, or the next retry is due, and right away when the device gets back
+// online.
+//
+// Request format (see README, and scripts/feedbackStub.js for a local stub):
+//
+//   POST <endpoint>
+//   Content-Type: application/json
+//   Idempotency-Key: <entry id>
+//
+//   { "id": string, "name": string, "email": string, "message": string,
+//     "createdAt": number (ms since epoch),
+//     "app": { "name": string, "version": string, "platform": string },
+//     "diagnostics"?: string (device summary and recent log, when the user attached it) }
+//
+// Any 2xx marks the entry sent. Other 4xx responses (except 408 and 429) are final and
+// mark it failed; everything else, including network errors and requests that get no
+// response within REQUEST_TIMEOUT_MS, is retried. An entry can be
+// sent twice if a response is lost, so the server should ignore a repeated id.
+
+// key predates the outbox; entries saved before it are sent like new ones
+const OUTBOX_KEY = "voice_feedback_v1";
+const ENDPOINT_KEY = "voice_feedback_endpoint";
+const FIRST_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 60 * 60 * 1000;
+// a request without a response by then is aborted, so a hung connection can't hold up
+// every later delivery
+export const REQUEST_TIMEOUT_MS = 20 * 1000;
+// after this many attempts the entry is marked failed and waits for a manual retry
+export const MAX_ATTEMPTS = 8;
+
+export type FeedbackStatus = "pending" | "sent" | "failed";
+
+export type FeedbackEntry = {
+  id: string;
+  name: string;
+  email: string;
+  message: string;
+  ts: number;
+  status: FeedbackStatus;
+  attempts: number;
+  // earliest time of the next send, for pending entries
+  nextAttemptAt?: number;
+  lastError?: string;
+  sentAt?: number;
+  // device summary and recent log, when attached
+  diagnostics?: string;
+};
+
+export type DeliveryReport = { sent: number; failed: number; waiting: number };
+
+export function backoffMs(attempts: number) {
+  return Math.min(MAX_RETRY_MS, FIRST_RETRY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+export function requestBody(entry: FeedbackEntry, platform: string) {
+  return {
+    id: entry.id,
+    name: entry.name,
+    email: entry.email,
+    message: entry.message,
+    createdAt: entry.ts,
+    app: { name: appConfig.expo.name, version: appConfig.expo.version, platform },
+    ...(entry.diagnostics ? { diagnostics: entry.diagnostics } : {}),
+  };
+}
+
+const STATUSES: FeedbackStatus[] = ["pending", "sent", "failed"];
+
+function normalize(raw: unknown): FeedbackEntry | null {
+  if (!isRecord(raw) || typeof raw.id !== "string" || typeof raw.message !== "string") {
+    return null;
+  }
+  const { nextAttemptAt, lastError, sentAt, diagnostics } = raw;
+  return {
+    id: raw.id,
+    message: raw.message,
+    name: typeof raw.name === "string" ? raw.name : "",
+    email: typeof raw.email === "string" ? raw.email : "",
+    ts: typeof raw.ts === "number" ? raw.ts : Date.now(),
+    status: STATUSES.find((s) => s === raw.status) || "pending",
+    attempts: typeof raw.attempts === "number" ? raw.attempts : 0,
+    ...(typeof nextAttemptAt === "number" ? { nextAttemptAt } : {}),
+    ...(typeof lastError === "string" ? { lastError } : {}),
+    ...(typeof sentAt === "number" ? { sentAt } : {}),
+    ...(typeof diagnostics === "string" ? { diagnostics } : {}),
+  };
+}
+
+export async function loadOutbox(): Promise<FeedbackEntry[]> {
+  const saved = await AsyncStorage.getItem(OUTBOX_KEY);
+  try {
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed)
+      ? parsed.map(normalize).filter((e): e is FeedbackEntry => e !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// outbox writes run one at a time, so a send finishing while an entry is added keeps both
+const serialized = createSerialQueue();
+
+function update(fn: (entries: FeedbackEntry[]) => FeedbackEntry[]) {
+  return serialized(async () => {
+    const next = fn(await loadOutbox());
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(next));
+    return next;
+  });
+}
+
+export async function addFeedback(
+  fields: { name: string; email: string; message: string; diagnostics?: string },
+  now = Date.now()
+) {
+  const entry: FeedbackEntry = {
+    // the suffix keeps entries added in the same millisecond apart
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    ...fields,
+    ts: now,
+    status: "pending",
+    attempts: 0,
+  };
+  await update((entries) => [entry, ...entries]);
+  return entry;
+}
+
+// Puts a failed entry back in the queue.
+export function retryFeedback(id: string) {
+  return update((entries) =>
+    entries.map((e) =>
+      e.id === id && e.status === "failed"
+        ? { ...e, status: "pending", attempts: 0, nextAttemptAt: undefined }
+        : e
+    )
+  );
+}
+
+export async function loadFeedbackEndpoint() {
+  return (await AsyncStorage.getItem(ENDPOINT_KEY)) || null;
+}
+
+export async function saveFeedbackEndpoint(endpoint: string | null) {
+  if (endpoint) await AsyncStorage.setItem(ENDPOINT_KEY, endpoint);
+  else await AsyncStorage.removeItem(ENDPOINT_KEY);
+}
+
+// Earliest time a pending entry may be sent again, or null when nothing is waiting.
+export function nextRetryAt(entries: FeedbackEntry[]) {
+  const times = entries.filter((e) => e.status === "pending").map((e) => e.nextAttemptAt || 0);
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+function isFinal(status: number) {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+let delivering: Promise<DeliveryReport> | null = null;
+// run queued by an ignoreBackoff call that came in while another run was going
+let followUp: Promise<DeliveryReport> | null = null;
+
+async function post(
+  fetchImpl: typeof fetch,
+  endpoint: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetchImpl(endpoint, { ...init, signal: controller.signal });
+  } catch (e) {
+    if (controller.signal.aborted) throw new Error(`No response after ${timeoutMs / 1000}s`);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export type DeliveryOptions = {
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+  timeoutMs?: number;
+  // send pending entries still waiting out their backoff too, e.g. when back online
+  ignoreBackoff?: boolean;
+};
+
+// Sends every pending entry that is due. Calls made while a run is going share it,
+// except that one ignoring the backoff gets a second run right after it, since the
+// current run may have skipped entries that were still waiting.
+export function deliverDue(
+  endpoint: string,
+  platform: string,
+  options: DeliveryOptions = {}
+): Promise<DeliveryReport> {
+  const {
+    fetchImpl = fetch,
+    now = Date.now,
+    timeoutMs = REQUEST_TIMEOUT_MS,
+    ignoreBackoff = false,
+  } = options;
+  if (delivering && ignoreBackoff) {
+    if (!followUp) {
+      followUp = delivering
+        .catch(() => null)
+        .then(() => {
+          followUp = null;
+          return deliverDue(endpoint, platform, options);
+        });
+    }
+    return followUp;
+  }
+  if (delivering) return delivering;
+  const run = async () => {
+    const report: DeliveryReport = { sent: 0, failed: 0, waiting: 0 };
+    const due = (await loadOutbox()).filter(
+      (e) => e.status === "pending" && (ignoreBackoff || (e.nextAttemptAt || 0) <= now())
+    );
+    for (const entry of due) {
+      let patch: Partial<FeedbackEntry>;
+      try {
+        const res = await post(
+          fetchImpl,
+          endpoint,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json", "Idempotency-Key": entry.id },
+            body: JSON.stringify(requestBody(entry, platform)),
+          },
+          timeoutMs
+        );
+        if (res.ok) {
+          patch = { status: "sent", sentAt: now(), lastError: undefined };
+        } else if (isFinal(res.status)) {
+          patch = { status: "failed", lastError: `Rejected by the server (${res.status})` };
+        } else {
+          throw new Error(`Server error (${res.status})`);
+        }
+      } catch (e) {
+        const attempts = entry.attempts + 1;
+        const message = e instanceof Error ? e.message : String(e);
+        patch =
+          attempts >= MAX_ATTEMPTS
+            ? { status: "failed", attempts, lastError: message }
+            : { attempts, nextAttemptAt: now() + backoffMs(attempts), lastError: message };
+      }
+      if (patch.status === "sent") report.sent++;
+      else if (patch.status === "failed") report.failed++;
+      else report.waiting++;
+      await update((entries) => entries.map((e) => (e.id === entry.id ? { ...e, ...patch } : e)));
+    }
+    return report;
+  };
+  delivering = run().finally(() => {
+    delivering = null;
+  });
+  return delivering;
+}
@@ -0,0 +1,151 @@
+import * as FileSystem from "expo-file-system";
+import type { Note } from "../types";
+import { fileName } from "./archive";
+import { readWavFile } from "./audioFile";
+import { isTextEntry } from "./entries";
+import { formatForUri } from "./recordingSettings";
+import { durationMillis } from "./wav";
+
+// Storage integrity scan: compares the notes list with the files in the voice notes
+// folder. The two drift apart when a restore brings metadata without audio, or when the
+// app dies between moving a recording in and saving the list. Nothing is changed by the
+// scan; each issue is repaired on its own with the helpers below.
+
+// a stored duration further off than this from the file is reported
+const DURATION_TOLERANCE_MS = 1000;
+const REVERSED = /_rev(\.[^./]+)$/;
+
+export type IntegrityIssue =
+  // the note's file is gone; `candidates` are unreferenced files it could be re-linked to
+  | { kind: "missingAudio"; note: Note; candidates: string[] }
+  // an audio file no note points to
+  | { kind: "orphanFile"; uri: string }
+  // a reversed copy whose original is not a note's audio any more
+  | { kind: "staleReversed"; uri: string }
+  // actualMs is null when the file's length can't be read
+  | { kind: "badDuration"; note: Note; actualMs: number | null };
+
+export type IntegrityReport = {
+  scannedAt: number;
+  notes: number;
+  files: number;
+  issues: IntegrityIssue[];
+};
+
+export type RepairAction = "relink" | "adopt" | "delete" | "recompute";
+
+export type ScanOptions = {
+  // duration of a file the WAV parser can't read (e.g. m4a), or null if unknown
+  probeDuration?: (uri: string) => Promise<number | null>;
+  onProgress?: (done: number, total: number) => void;
+};
+
+export const ISSUE_LABELS: Record<IntegrityIssue["kind"], string> = {
+  missingAudio: "missing audio",
+  orphanFile: "unreferenced files",
+  staleReversed: "stale reversed copies",
+  badDuration: "wrong durations",
+};
+
+async function fileDuration(uri: string, probe?: ScanOptions["probeDuration"]) {
+  const wav = await readWavFile(uri).catch(() => null);
+  if (wav) return durationMillis(wav);
+  return probe ? probe(uri).catch(() => null) : null;
+}
+
+export async function scanStorage(
+  notes: Note[],
+  voiceDir: string,
+  { probeDuration, onProgress = () => {} }: ScanOptions = {}
+): Promise<IntegrityReport> {
+  const files = await FileSystem.readDirectoryAsync(voiceDir).catch(() => [] as string[]);
+  const audio = files.filter((f) => !REVERSED.test(f));
+  const referenced = new Set<string>();
+  const issues: IntegrityIssue[] = [];
+  const missing: Note[] = [];
+
+  for (let i = 0; i < notes.length; i++) {
+    const note = notes[i];
+    onProgress(i, notes.length);
+    if (isTextEntry(note)) continue;
+    const exists = (await FileSystem.getInfoAsync(note.uri)).exists;
+    if (!exists) {
+      missing.push(note);
+      continue;
+    }
+    if (note.uri.startsWith(voiceDir)) referenced.add(fileName(note.uri));
+    const actualMs = await fileDuration(note.uri, probeDuration);
+    if (actualMs !== null && Math.abs(actualMs - (note.duration || 0)) > DURATION_TOLERANCE_MS) {
+      issues.push({ kind: "badDuration", note, actualMs });
+    } else if (actualMs === null && !(note.duration > 0)) {
+      // unknown length and nothing stored: still worth reporting
+      issues.push({ kind: "badDuration", note, actualMs: null });
+    }
+  }
+  onProgress(notes.length, notes.length);
+
+  const orphans = audio.filter((f) => !referenced.has(f));
+  for (const note of missing) {
+    // a file with the same name (e.g. after the app's folder moved) comes first
+    const name = fileName(note.uri);
+    const candidates = [
+      ...orphans.filter((f) => f === name),
+      ...orphans.filter((f) => f !== name),
+    ].map((f) => voiceDir + f);
+    issues.push({ kind: "missingAudio", note, candidates });
+  }
+  for (const f of orphans) issues.push({ kind: "orphanFile", uri: voiceDir + f });
+  for (const f of files.filter((f) => REVERSED.test(f))) {
+    if (!referenced.has(f.replace(REVERSED, "$1"))) {
+      issues.push({ kind: "staleReversed", uri: voiceDir + f });
+    }
+  }
+
+  return { scannedAt: Date.now(), notes: notes.length, files: files.length, issues };
+}
+
+export function summarize(report: IntegrityReport) {
+  const counts = new Map<IntegrityIssue["kind"], number>();
+  report.issues.forEach((i) => counts.set(i.kind, (counts.get(i.kind) || 0) + 1));
+  const parts = [...counts].map(([kind, n]) => `${n} ${ISSUE_LABELS[kind]}`);
+  const head = `Scanned ${report.notes} notes and ${report.files} files`;
+  return parts.length > 0 ? `${head}: ${parts.join(", ")}.` : `${head}. No problems found.`;
+}
+
+// The report after `issue` was repaired. `usedUri` is a file that now belongs to a note
+// (re-linked or adopted), so it is no longer an orphan or a re-link candidate.
+export function withoutIssue(
+  report: IntegrityReport,
+  issue: IntegrityIssue,
+  usedUri?: string
+): IntegrityReport {
+  const issues: IntegrityIssue[] = [];
+  for (const i of report.issues) {
+    if (i === issue || (i.kind === "orphanFile" && i.uri === usedUri)) continue;
+    if (i.kind === "missingAudio" && usedUri && i.candidates.includes(usedUri)) {
+      issues.push({ ...i, candidates: i.candidates.filter((c) => c !== usedUri) });
+    } else {
+      issues.push(i);
+    }
+  }
+  return { ...report, issues };
+}
+
+// Builds a note for an unreferenced file so it shows up in the journal again.
+export async function adoptOrphan(
+  uri: string,
+  id: string,
+  probeDuration?: ScanOptions["probeDuration"]
+): Promise<Note> {
+  const info = await FileSystem.getInfoAsync(uri);
+  const modified = info.exists && info.modificationTime ? info.modificationTime * 1000 : Date.now();
+  return {
+    id,
+    kind: "audio",
+    title: "Recovered recording",
+    uri,
+    createdAt: modified,
+    duration: (await fileDuration(uri, probeDuration)) || 0,
+    format: formatForUri(uri),
+  };
+}
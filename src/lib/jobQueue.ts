@@ -0,0 +1,40 @@
+// Tiny serial background queue. Jobs run one at a time in the order they were added;
+// a key that is already queued or running is not added again. Failures are reported
+// to `onError` and do not stop the queue.
+
+export type JobQueue = {
+  enqueue: (key: string, run: () => Promise<void>) => boolean;
+  size: () => number;
+};
+
+export function createJobQueue(onError?: (key: string, error: unknown) => void): JobQueue {
+  const pending: { key: string; run: () => Promise<void> }[] = [];
+  const keys = new Set<string>();
+  let running = false;
+
+  async function drain() {
+    if (running) return;
+    running = true;
+    while (pending.length > 0) {
+      const job = pending.shift()!;
+      try {
+        await job.run();
+      } catch (e) {
+        if (onError) onError(job.key, e);
+      }
+      keys.delete(job.key);
+    }
+    running = false;
+  }
+
+  return {
+    enqueue(key, run) {
+      if (keys.has(key)) return false;
+      keys.add(key);
+      pending.push({ key, run });
+      drain();
+      return true;
+    },
+    size: () => keys.size,
+  };
+}
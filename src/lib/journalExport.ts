@@ -0,0 +1,163 @@
+import * as FileSystem from "expo-file-system";
+import type { Note } from "../types";
+import { exportWavFile, readWavFile } from "./audioFile";
+import { isTextEntry } from "./entries";
+import { formatDay } from "./query";
+import { plainText } from "./richText";
+import { decodeMono, durationMillis, encodeMono16, resample } from "./wav";
+import type { WavData } from "./wav";
+
+// Exports a selection of notes for use outside the app: a Markdown journal, a CSV index,
+// or the audio of all WAV notes joined into one file. Exports are written unencrypted to
+// a cache folder that is cleared before each new export, then handed to the share sheet.
+
+const EXPORT_DIR = FileSystem.cacheDirectory + "export/";
+// merged audio is built in memory, so very long selections are refused
+const MAX_MERGED_MS = 60 * 60 * 1000;
+
+export type ExportKind = "markdown" | "csv" | "audio";
+
+export const EXPORT_EXTENSIONS: Record<ExportKind, string> = {
+  markdown: "md",
+  csv: "csv",
+  audio: "wav",
+};
+
+export type ExportResult = {
+  uri: string;
+  // notes that made it into the file; for audio, the others had no WAV audio
+  included: number;
+  skipped: number;
+};
+
+function chronological(notes: Note[]) {
+  return [...notes].sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function formatClock(ms: number) {
+  const total = Math.floor(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function formatTime(ts: number) {
+  const d = new Date(ts);
+  return `${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+export function toMarkdown(notes: Note[]) {
+  const lines = ["# Voice journal", ""];
+  let day = "";
+  for (const note of chronological(notes)) {
+    if (formatDay(note.createdAt) !== day) {
+      day = formatDay(note.createdAt);
+      lines.push(`## ${day}`, "");
+    }
+    lines.push(`### ${note.title}`, "");
+    const meta = [
+      formatTime(note.createdAt),
+      isTextEntry(note) ? "text" : formatClock(note.duration || 0),
+    ];
+    if (note.notebook) meta.push(note.notebook);
+    if (note.tags && note.tags.length > 0) meta.push(note.tags.map((t) => "#" + t).join(" "));
+    lines.push(`_${meta.join(" · ")}_`, "");
+    // the body is already Markdown
+    if (note.body && note.body.trim()) lines.push(note.body.trim(), "");
+    if (note.transcript && note.transcript.segments.length > 0) {
+      lines.push(note.transcript.segments.map((s) => s.text.trim()).join(" "), "");
+    }
+    if (note.bookmarks && note.bookmarks.length > 0) {
+      for (const b of note.bookmarks) {
+        lines.push(`- ${formatClock(b.positionMs)}${b.label ? " " + b.label : ""}`);
+      }
+      lines.push("");
+    }
+  }
+  return lines.join("\n");
+}
+
+function csvField(value: string | number) {
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "kind",
+  "date",
+  "time",
+  "title",
+  "duration_s",
+  "notebook",
+  "tags",
+  "bookmarks",
+  "transcript",
+  "body",
+  "file",
+];
+
+export function toCsv(notes: Note[]) {
+  const rows = chronological(notes).map((n) => [
+    n.id,
+    isTextEntry(n) ? "text" : "audio",
+    formatDay(n.createdAt),
+    formatTime(n.createdAt),
+    n.title,
+    Math.round((n.duration || 0) / 100) / 10,
+    n.notebook || "",
+    (n.tags || []).join(" "),
+    (n.bookmarks || []).length,
+    n.transcript ? n.transcript.segments.map((s) => s.text.trim()).join(" ") : "",
+    n.body ? plainText(n.body) : "",
+    n.uri.split("/").pop() || "",
+  ]);
+  // CRLF as RFC 4180 asks for, so spreadsheet apps split rows the same everywhere
+  return [CSV_COLUMNS, ...rows].map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Joins the parts into one mono 16-bit file at the highest sample rate among them, with
+// `gapMs` of silence between parts.
+export function concatWav(parts: WavData[], gapMs: number): WavData {
+  const rate = Math.max(...parts.map((p) => p.sampleRate));
+  const gap = Math.round((gapMs / 1000) * rate);
+  const tracks = parts.map((p) => resample(decodeMono(p), p.sampleRate, rate));
+  const total = tracks.reduce((sum, t) => sum + t.length, 0) + gap * (tracks.length - 1);
+  const out = new Float32Array(Math.max(0, total));
+  let offset = 0;
+  tracks.forEach((t) => {
+    out.set(t, offset);
+    offset += t.length + gap;
+  });
+  return encodeMono16(out, rate);
+}
+
+async function exportPath(kind: ExportKind) {
+  await FileSystem.deleteAsync(EXPORT_DIR, { idempotent: true });
+  await FileSystem.makeDirectoryAsync(EXPORT_DIR, { intermediates: true });
+  return EXPORT_DIR + `voice_journal_${formatDay(Date.now())}.${EXPORT_EXTENSIONS[kind]}`;
+}
+
+export async function exportText(kind: "markdown" | "csv", notes: Note[]): Promise<ExportResult> {
+  const uri = await exportPath(kind);
+  const text = kind === "markdown" ? toMarkdown(notes) : toCsv(notes);
+  await FileSystem.writeAsStringAsync(uri, text, { encoding: FileSystem.EncodingType.UTF8 });
+  return { uri, included: notes.length, skipped: 0 };
+}
+
+// Notes whose audio is not WAV (or is missing) can't be decoded here and are skipped;
+// text entries are left out without counting as skipped.
+export async function exportMergedAudio(selected: Note[], gapMs: number): Promise<ExportResult> {
+  const notes = selected.filter((n) => !isTextEntry(n));
+  const parts: WavData[] = [];
+  for (const note of chronological(notes)) {
+    const wav = await readWavFile(note.uri).catch(() => null);
+    if (wav) parts.push(wav);
+  }
+  if (parts.length === 0) throw new Error("None of the selected notes has WAV audio");
+  const length = parts.reduce((sum, p) => sum + durationMillis(p), 0);
+  if (length > MAX_MERGED_MS) {
+    throw new Error("The merged audio would be longer than an hour; select fewer notes");
+  }
+  const uri = await exportPath("audio");
+  await exportWavFile(uri, concatWav(parts, gapMs));
+  return { uri, included: parts.length, skipped: notes.length - parts.length };
+}
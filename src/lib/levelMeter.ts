@@ -0,0 +1,46 @@
+// Input level helpers for the recorder. The recorder reports metering in dBFS (0 is full
+// scale, quieter is negative); these turn it into a 0..1 meter level and decide when a
+// take should stop on its own.
+
+// anything quieter shows as an empty meter
+export const METER_FLOOR_DB = -60;
+// input at or above this is treated as clipping
+export const CLIP_DB = -1;
+// input below this counts as silence for auto-stop
+export const SILENCE_DB = -45;
+
+export function meterLevel(db: number) {
+  if (!isFinite(db)) return 0;
+  return Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+// When the current silence began, in take time, or null while there is sound. A missing
+// reading (metering not supported) never counts as silence.
+export function silenceSince(since: number | null, db: number | undefined, atMs: number) {
+  if (typeof db !== "number" || db >= SILENCE_DB) return null;
+  return since === null ? atMs : since;
+}
+
+export type AutoStopLimits = {
+  // 0 is off
+  silenceStopSec: number;
+  maxDurationMin: number;
+};
+
+export type AutoStopReason = "silence" | "limit";
+
+export function autoStopReason(
+  elapsedMs: number,
+  silentSince: number | null,
+  { silenceStopSec, maxDurationMin }: AutoStopLimits
+): AutoStopReason | null {
+  if (maxDurationMin > 0 && elapsedMs >= maxDurationMin * 60000) return "limit";
+  if (
+    silenceStopSec > 0 &&
+    silentSince !== null &&
+    elapsedMs - silentSince >= silenceStopSec * 1000
+  ) {
+    return "silence";
+  }
+  return null;
+}
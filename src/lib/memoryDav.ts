@@ -0,0 +1,104 @@
+import * as FileSystem from "expo-file-system";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import { bytesToUtf8, utf8ToBytes } from "./crypto";
+import { DavError, PreconditionFailedError } from "./webdav";
+import type { DavClient } from "./webdav";
+
+// In-process WebDAV stand-in with the same behaviour the sync relies on from a real
+// server: conditional writes with ETags, 409 for a missing parent folder, MOVE and
+// DELETE. The sync tests run against it (see __tests__/sync.test.ts).
+
+export type MemoryDavOptions = {
+  // return true to make a request fail as if the connection dropped before it arrived
+  failOn?: (method: string, path: string) => boolean;
+};
+
+export type MemoryDav = DavClient & {
+  // file contents (base64) and folders by path, for inspection
+  files: Map<string, { data: string; etag: string }>;
+  folders: Set<string>;
+};
+
+export function createMemoryDav({ failOn = () => false }: MemoryDavOptions = {}): MemoryDav {
+  const files = new Map<string, { data: string; etag: string }>();
+  const folders = new Set<string>([""]);
+  let version = 0;
+
+  function enter(method: string, path: string) {
+    if (failOn(method, path)) throw new Error(`Network request failed (${method} ${path})`);
+  }
+
+  function parent(path: string) {
+    return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+  }
+
+  function write(path: string, data: string) {
+    if (!folders.has(parent(path))) throw new DavError(409);
+    files.set(path, { data, etag: `"${++version}"` });
+  }
+
+  function read(path: string) {
+    const file = files.get(path);
+    if (!file) throw new DavError(404);
+    return file;
+  }
+
+  return {
+    files,
+    folders,
+
+    async getText(path) {
+      enter("GET", path);
+      const file = files.get(path);
+      return file ? { text: bytesToUtf8(base64ToBytes(file.data)), etag: file.etag } : null;
+    },
+
+    async putText(path, text, etag) {
+      enter("PUT", path);
+      const current = files.get(path);
+      if (etag === null && current) throw new PreconditionFailedError();
+      if (typeof etag === "string" && (!current || current.etag !== etag)) {
+        throw new PreconditionFailedError();
+      }
+      write(path, bytesToBase64(utf8ToBytes(text)));
+    },
+
+    async exists(path) {
+      enter("HEAD", path);
+      return files.has(path);
+    },
+
+    async upload(localUri, path) {
+      enter("PUT", path);
+      const data = await FileSystem.readAsStringAsync(localUri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      write(path, data);
+    },
+
+    async download(path, localUri) {
+      enter("GET", path);
+      await FileSystem.writeAsStringAsync(localUri, read(path).data, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+    },
+
+    async move(from, to) {
+      enter("MOVE", from);
+      const file = read(from);
+      write(to, file.data);
+      files.delete(from);
+    },
+
+    async remove(path) {
+      enter("DELETE", path);
+      files.delete(path);
+    },
+
+    async ensureFolder(path) {
+      enter("MKCOL", path);
+      if (!folders.has(parent(path))) throw new DavError(409);
+      folders.add(path);
+    },
+  };
+}
@@ -0,0 +1,135 @@
+import type { Note } from "../types";
+import { isTextEntry } from "./entries";
+
+// Merge engine used by restore. Imported notes are matched to local ones by id first,
+// then by the hash of their audio content (same recording saved under another id).
+// Matches are resolved with the selected policy; nothing here touches storage.
+
+export type MergePolicy = "keepLocal" | "keepImported" | "keepNewest" | "keepBoth";
+
+export const MERGE_POLICIES: { key: MergePolicy; label: string }[] = [
+  { key: "keepLocal", label: "Keep local" },
+  { key: "keepImported", label: "Keep imported" },
+  { key: "keepNewest", label: "Keep newest" },
+  { key: "keepBoth", label: "Keep both" },
+];
+
+export type MergeItem =
+  // `note` is what ends up in the list
+  | { action: "add"; imported: Note; note: Note }
+  | { action: "update"; imported: Note; local: Note; note: Note }
+  | { action: "skip"; imported: Note; local: Note; reason: "identical" | "policy" };
+
+export type MergePlan = {
+  policy: MergePolicy;
+  items: MergeItem[];
+  // the full list after applying the plan
+  result: Note[];
+  counts: { add: number; update: number; skip: number };
+};
+
+export type MergeOptions = {
+  // content hash of a note's audio, if known
+  hashOf: (note: Note, side: "local" | "imported") => string | undefined;
+  newId: () => string;
+};
+
+function sameMetadata(a: Note, b: Note) {
+  const strip = ({ uri, ...rest }: Note) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+function withId(note: Note, id: string): Note {
+  if (isTextEntry(note)) return { ...note, id };
+  const dot = note.uri.lastIndexOf(".");
+  const slash = note.uri.lastIndexOf("/");
+  const ext = dot > slash ? note.uri.slice(dot) : "";
+  return { ...note, id, uri: note.uri.slice(0, slash + 1) + id + ext };
+}
+
+export function planMerge(
+  local: Note[],
+  imported: Note[],
+  policy: MergePolicy,
+  { hashOf, newId }: MergeOptions
+): MergePlan {
+  const byId = new Map(local.map((n) => [n.id, n]));
+  const byHash = new Map<string, Note>();
+  for (const n of local) {
+    const h = hashOf(n, "local");
+    if (h && !byHash.has(h)) byHash.set(h, n);
+  }
+
+  const items: MergeItem[] = [];
+  const claimed = new Set<string>();
+  const taken = new Set(local.map((n) => n.id));
+  for (const imp of imported) {
+    const impHash = hashOf(imp, "imported");
+    let match = byId.get(imp.id);
+    if (!match && impHash) match = byHash.get(impHash);
+    // a local note can only absorb one imported note; further ones are treated as new
+    if (match && claimed.has(match.id)) match = undefined;
+
+    if (!match) {
+      const note = taken.has(imp.id) ? withId(imp, newId()) : imp;
+      taken.add(note.id);
+      items.push({ action: "add", imported: imp, note });
+      continue;
+    }
+    claimed.add(match.id);
+
+    const localHash = hashOf(match, "local");
+    const sameAudio = !impHash || !localHash || impHash === localHash;
+    if (sameAudio && sameMetadata({ ...imp, id: match.id }, match)) {
+      items.push({ action: "skip", imported: imp, local: match, reason: "identical" });
+      continue;
+    }
+
+    // an update takes the imported metadata but stays under the local id and file
+    const updated: Note = {
+      ...imp,
+      id: match.id,
+      uri: isTextEntry(imp) ? "" : match.uri || imp.uri,
+    };
+    switch (policy) {
+      case "keepLocal":
+        items.push({ action: "skip", imported: imp, local: match, reason: "policy" });
+        break;
+      case "keepImported":
+        items.push({ action: "update", imported: imp, local: match, note: updated });
+        break;
+      case "keepNewest":
+        if (imp.createdAt > match.createdAt) {
+          items.push({ action: "update", imported: imp, local: match, note: updated });
+        } else {
+          items.push({ action: "skip", imported: imp, local: match, reason: "policy" });
+        }
+        break;
+      case "keepBoth": {
+        const copy = withId(imp, newId());
+        taken.add(copy.id);
+        items.push({ action: "add", imported: imp, note: copy });
+        break;
+      }
+    }
+  }
+
+  const updates = new Map<string, Note>();
+  const adds: Note[] = [];
+  for (const item of items) {
+    if (item.action === "update") updates.set(item.local.id, item.note);
+    if (item.action === "add") adds.push(item.note);
+  }
+  const result = [...adds, ...local.map((n) => updates.get(n.id) || n)];
+
+  return {
+    policy,
+    items,
+    result,
+    counts: {
+      add: adds.length,
+      update: updates.size,
+      skip: items.filter((i) => i.action === "skip").length,
+    },
+  };
+}
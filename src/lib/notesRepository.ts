@@ -0,0 +1,285 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type { Bookmark, Note, NoteKind, RecordingFormat, Transcript } from "../types";
+import { isNumberArray, isRecord, isStringArray } from "./guards";
+import { formatForUri } from "./recordingSettings";
+import { normalizeTags } from "./tags";
+import { openString, sealString } from "./vault";
+
+// Owns the persisted notes list. Data is stored with a schema version; older data is
+// brought forward by the migrations below, then every record is validated. Records
+// that fail validation are moved to a quarantine key instead of being dropped.
+// Both values are sealed while a passcode is set (see vault).
+//
+// To add a field to Note: bump SCHEMA_VERSION, append a migration that fills it in for
+// old records, and teach validateNote about it.
+
+// key predates the repository and is kept so existing installs keep their notes
+const STORAGE_KEY = "voice_notes_final_v1";
+const SCHEMA_KEY = "voice_notes_schema_version";
+const QUARANTINE_KEY = "voice_notes_quarantine";
+
+export const SCHEMA_VERSION = 7;
+// first version with text entries (notes without audio, see entries)
+const TEXT_ENTRIES_VERSION = 7;
+
+type Migration = {
+  // version the data has after this migration ran
+  version: number;
+  migrate: (records: unknown[]) => unknown[];
+};
+
+// ordered; data stored before versioning existed counts as version 1
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    // duration used to be optional in older builds; peaks must be a number array
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r)) return r;
+        const next: Record<string, unknown> = { ...r, duration: Number(r.duration) || 0 };
+        if (next.peaks !== undefined && !Array.isArray(next.peaks)) delete next.peaks;
+        return next;
+      }),
+  },
+  {
+    version: 3,
+    // tags and notebook were added; clean up anything hand-edited into the wrong shape
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r)) return r;
+        const next = { ...r };
+        if (Array.isArray(next.tags)) {
+          next.tags = normalizeTags(
+            next.tags.filter((t: unknown): t is string => typeof t === "string")
+          );
+        } else {
+          delete next.tags;
+        }
+        if (typeof next.notebook !== "string" || !next.notebook.trim()) delete next.notebook;
+        return next;
+      }),
+  },
+  {
+    version: 4,
+    // transcripts were added; a malformed one is dropped so it gets regenerated
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r) || r.transcript === undefined) return r;
+        if (isTranscript(r.transcript)) return r;
+        const { transcript, ...rest } = r;
+        return rest;
+      }),
+  },
+  {
+    version: 5,
+    // bookmarks were added; keep the well-formed ones, sorted by position
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r) || r.bookmarks === undefined) return r;
+        if (!Array.isArray(r.bookmarks)) {
+          const { bookmarks, ...rest } = r;
+          return rest;
+        }
+        const bookmarks = r.bookmarks
+          .filter(isBookmark)
+          .sort((a, b) => a.positionMs - b.positionMs);
+        return { ...r, bookmarks };
+      }),
+  },
+  {
+    version: 6,
+    // the recording format was added; older notes get what their file extension says
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r) || typeof r.uri !== "string") return r;
+        if (isFormat(r.format)) return r;
+        return { ...r, format: formatForUri(r.uri) };
+      }),
+  },
+  {
+    version: 7,
+    // text entries were added; everything stored before is a recording
+    migrate: (records) =>
+      records.map((r) => {
+        if (!isRecord(r)) return r;
+        const { body, ...rest } = r;
+        return { ...rest, kind: "audio", ...(typeof body === "string" ? { body } : {}) };
+      }),
+  },
+];
+
+function isNoteKind(k: unknown): k is NoteKind {
+  return k === "audio" || k === "text";
+}
+
+function isFormat(f: unknown): f is RecordingFormat {
+  return (
+    isRecord(f) &&
+    typeof f.container === "string" &&
+    typeof f.encoding === "string" &&
+    ["sampleRate", "channels", "bitRate"].every(
+      (k) => f[k] === undefined || typeof f[k] === "number"
+    ) &&
+    (f.preset === undefined || typeof f.preset === "string")
+  );
+}
+
+function isBookmark(b: unknown): b is Bookmark {
+  return (
+    isRecord(b) &&
+    typeof b.id === "string" &&
+    typeof b.positionMs === "number" &&
+    typeof b.createdAt === "number" &&
+    (b.label === undefined || typeof b.label === "string")
+  );
+}
+
+function isTranscript(t: unknown): t is Transcript {
+  return (
+    isRecord(t) &&
+    Array.isArray(t.segments) &&
+    t.segments.every(
+      (s: unknown) =>
+        isRecord(s) &&
+        typeof s.startMs === "number" &&
+        typeof s.endMs === "number" &&
+        typeof s.text === "string"
+    )
+  );
+}
+
+export type QuarantinedRecord = {
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: number;
+};
+
+// Returns the note, or a reason why the record is not a usable note. `version` is the
+// schema the record is in; text entries are only valid from TEXT_ENTRIES_VERSION on.
+export function validateNote(raw: unknown, version = SCHEMA_VERSION): Note | string {
+  if (!isRecord(raw)) return "not an object";
+  const { id, kind, title, uri, createdAt, duration, ...optional } = raw;
+  const { peaks, tags, notebook, transcript, bookmarks, format, body, ...unknownFields } = optional;
+  if (typeof id !== "string" || !id) return "missing id";
+  const kinds: NoteKind[] = version >= TEXT_ENTRIES_VERSION ? ["audio", "text"] : ["audio"];
+  if (kind !== undefined && !(isNoteKind(kind) && kinds.includes(kind))) return "invalid kind";
+  if (typeof uri !== "string" || (!uri && kind !== "text")) return "missing uri";
+  if (typeof createdAt !== "number" || !isFinite(createdAt)) return "invalid createdAt";
+  if (typeof duration !== "number" || !isFinite(duration) || duration < 0) {
+    return "invalid duration";
+  }
+  if (peaks !== undefined && !isNumberArray(peaks)) return "invalid peaks";
+  if (tags !== undefined && !isStringArray(tags)) return "invalid tags";
+  if (notebook !== undefined && typeof notebook !== "string") return "invalid notebook";
+  if (transcript !== undefined && !isTranscript(transcript)) return "invalid transcript";
+  if (bookmarks !== undefined && !(Array.isArray(bookmarks) && bookmarks.every(isBookmark))) {
+    return "invalid bookmarks";
+  }
+  if (format !== undefined && !isFormat(format)) return "invalid format";
+  if (body !== undefined && typeof body !== "string") return "invalid body";
+  const note: Note = {
+    id,
+    title: typeof title === "string" ? title : "Untitled Recording",
+    uri,
+    createdAt,
+    duration,
+    ...(kind !== undefined ? { kind } : {}),
+    ...(body !== undefined ? { body } : {}),
+    ...(peaks !== undefined ? { peaks } : {}),
+    ...(tags !== undefined ? { tags } : {}),
+    ...(notebook !== undefined ? { notebook } : {}),
+    ...(transcript !== undefined ? { transcript } : {}),
+    ...(bookmarks !== undefined ? { bookmarks } : {}),
+    ...(format !== undefined ? { format } : {}),
+  };
+  // unknown fields are kept so data written by a newer build is not stripped
+  return { ...unknownFields, ...note };
+}
+
+export function migrate(records: unknown[], fromVersion: number): unknown[] {
+  return MIGRATIONS.filter((m) => m.version > fromVersion).reduce(
+    (acc, m) => m.migrate(acc),
+    records
+  );
+}
+
+async function quarantine(items: QuarantinedRecord[]) {
+  if (items.length === 0) return;
+  const existing = await loadQuarantine();
+  await AsyncStorage.setItem(QUARANTINE_KEY, sealString(JSON.stringify([...existing, ...items])));
+}
+
+export async function loadQuarantine(): Promise<QuarantinedRecord[]> {
+  const saved = await AsyncStorage.getItem(QUARANTINE_KEY);
+  if (!saved) return [];
+  const text = openString(saved);
+  try {
+    return JSON.parse(text) as QuarantinedRecord[];
+  } catch {
+    return [];
+  }
+}
+
+export async function loadNotes(): Promise<Note[]> {
+  const [[, saved], [, versionStr]] = await AsyncStorage.multiGet([STORAGE_KEY, SCHEMA_KEY]);
+  if (!saved) return [];
+  const version = versionStr ? Number(versionStr) || 1 : 1;
+  const now = Date.now();
+
+  // outside the try: a locked store must not be quarantined
+  const text = openString(saved);
+  let records: unknown[];
+  try {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error("notes store is not an array");
+    records = parsed;
+  } catch (e) {
+    // keep the unreadable blob so it can be recovered by hand
+    await quarantine([
+      { record: saved, reason: String(e), schemaVersion: version, quarantinedAt: now },
+    ]);
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    return [];
+  }
+
+  const migrated = version < SCHEMA_VERSION ? migrate(records, version) : records;
+  const notes: Note[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  migrated.forEach((r, i) => {
+    const result = validateNote(r, Math.max(version, SCHEMA_VERSION));
+    if (typeof result === "string") {
+      rejected.push({
+        record: records[i],
+        reason: result,
+        schemaVersion: version,
+        quarantinedAt: now,
+      });
+    } else {
+      notes.push(result);
+    }
+  });
+  await quarantine(rejected);
+
+  // persist the upgraded data; data from a newer build is left as it is
+  if (version < SCHEMA_VERSION || rejected.length > 0) {
+    await saveNotes(notes, Math.max(version, SCHEMA_VERSION));
+  }
+  return notes;
+}
+
+export async function saveNotes(list: Note[], version = SCHEMA_VERSION) {
+  await AsyncStorage.multiSet([
+    [STORAGE_KEY, sealString(JSON.stringify(list))],
+    [SCHEMA_KEY, String(version)],
+  ]);
+}
+
+// Rewrites the stored values with the current key, after the passcode was set, changed
+// or removed.
+export async function resealStore() {
+  for (const key of [STORAGE_KEY, QUARANTINE_KEY]) {
+    const saved = await AsyncStorage.getItem(key);
+    if (saved) await AsyncStorage.setItem(key, sealString(openString(saved)));
+  }
+}
@@ -0,0 +1,89 @@
+import * as FileSystem from "expo-file-system";
+import { resealFile } from "./audioFile";
+import { resealStore } from "./notesRepository";
+import { resealSyncConfig } from "./sync";
+import { resealTrash } from "./trash";
+import {
+  currentKey,
+  lockConfig,
+  newDataKey,
+  saveLockConfig,
+  unwrapKey,
+  useKeys,
+  wrapKey,
+} from "./vault";
+
+// Setting, changing and removing the passcode. Each of them rewrites every audio file
+// and the notes store with the new key:
+//
+//   1. the new lock config is saved with `pending` set; on a change it also carries the
+//      old data key, so data not yet rewritten stays readable;
+//   2. every file in the given folders (voice notes, trash) and the stores are rewritten;
+//   3. `pending` (and the old key) are dropped from the config.
+//
+// If the app is killed during step 2, unlocking with the new passcode finds `pending`
+// and finishes the run.
+
+export const MIN_PASSCODE_LENGTH = 4;
+
+async function rewriteAll(dirs: string[]) {
+  for (const dir of dirs) {
+    const files = await FileSystem.readDirectoryAsync(dir).catch(() => [] as string[]);
+    for (const name of files) await resealFile(dir + name);
+  }
+  await resealStore();
+  await resealTrash();
+  await resealSyncConfig();
+}
+
+function checkPasscode(passcode: string) {
+  const config = lockConfig();
+  if (!config) throw new Error("No passcode is set");
+  try {
+    return { config, dataKey: unwrapKey(passcode, config) };
+  } catch {
+    throw new Error("Wrong passcode");
+  }
+}
+
+// Completes an interrupted set/change/remove. Requires the vault to be unlocked.
+export async function finishPending(dirs: string[]) {
+  const config = lockConfig();
+  if (!config || !config.pending) return;
+  await rewriteAll(dirs);
+  if (config.pending === "unseal") {
+    await saveLockConfig(null);
+    useKeys(null);
+    return;
+  }
+  const { previousKey, pending, ...done } = config;
+  await saveLockConfig(done);
+  useKeys(currentKey());
+}
+
+export async function enablePasscode(passcode: string, dirs: string[]) {
+  if (lockConfig()) throw new Error("A passcode is already set");
+  const dataKey = newDataKey();
+  await saveLockConfig({ ...wrapKey(passcode, dataKey), pending: "seal" });
+  useKeys(dataKey);
+  await finishPending(dirs);
+}
+
+// Re-encrypts everything under a fresh data key wrapped with the new passcode.
+export async function changePasscode(current: string, next: string, dirs: string[]) {
+  await finishPending(dirs);
+  const { dataKey: oldKey } = checkPasscode(current);
+  const dataKey = newDataKey();
+  await saveLockConfig({ ...wrapKey(next, dataKey, oldKey), pending: "seal" });
+  useKeys(dataKey, oldKey);
+  await finishPending(dirs);
+}
+
+// Decrypts everything and removes the lock.
+export async function disablePasscode(passcode: string, dirs: string[]) {
+  await finishPending(dirs);
+  const { config, dataKey } = checkPasscode(passcode);
+  await saveLockConfig({ ...config, pending: "unseal" });
+  useKeys(dataKey);
+  await finishPending(dirs);
+}
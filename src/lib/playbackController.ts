@@ -0,0 +1,341 @@
+import type { AVPlaybackStatus, AVPlaybackStatusToSet } from "expo-av";
+import type { Note } from "../types";
+import { withPosition } from "./playbackPositions";
+import type { Positions } from "./playbackPositions";
+
+// Owns the single app-wide sound and the play queue. UI code reads state through
+// subscribe()/getState() and calls the methods below; it never touches the sound.
+// The sound factory is injected, so the controller runs against a fake in tests.
+
+// the part of Audio.Sound the controller uses
+export type SoundLike = {
+  playAsync: () => Promise<AVPlaybackStatus>;
+  pauseAsync: () => Promise<AVPlaybackStatus>;
+  stopAsync: () => Promise<AVPlaybackStatus>;
+  unloadAsync: () => Promise<AVPlaybackStatus>;
+  setPositionAsync: (positionMillis: number) => Promise<AVPlaybackStatus>;
+  setRateAsync: (rate: number, shouldCorrectPitch: boolean) => Promise<AVPlaybackStatus>;
+  getStatusAsync: () => Promise<AVPlaybackStatus>;
+  setOnPlaybackStatusUpdate: (onUpdate: ((status: AVPlaybackStatus) => void) | null) => void;
+};
+
+export type ResolvedUri = { uri: string; reversed: boolean };
+
+export type PlaybackDeps = {
+  createSound: (uri: string, initialStatus: AVPlaybackStatusToSet) => Promise<SoundLike>;
+  // file to play for a note (e.g. a decrypted copy), and whether it plays reversed; a
+  // reverse request falls back to forward playback when no reversed copy is available
+  resolveUri?: (note: Note, reverse: boolean) => Promise<ResolvedUri>;
+  loadPositions?: () => Promise<Positions>;
+  savePositions?: (positions: Positions) => Promise<void>;
+  onError?: (message: string, error: unknown) => void;
+};
+
+export type PlaybackState = {
+  // note whose sound is loaded (playing or paused)
+  activeId: string | null;
+  playing: boolean;
+  reversed: boolean;
+  positionMs: number;
+  durationMs: number;
+  rate: number;
+  // notes queued for continuous playback, and the index of the loaded one
+  queue: Note[];
+  queueIndex: number;
+  // last position per note id
+  positions: Positions;
+};
+
+export type PlayOptions = {
+  reverse?: boolean;
+  // start playback from this position instead of resuming
+  positionMillis?: number;
+};
+
+// how far into a note "previous" restarts it instead of going to the previous note
+const RESTART_THRESHOLD_MS = 3000;
+// how often the position is persisted while playing
+const SAVE_EVERY_MS = 5000;
+
+export type PlaybackController = ReturnType<typeof createPlaybackController>;
+
+export function createPlaybackController(deps: PlaybackDeps) {
+  let state: PlaybackState = {
+    activeId: null,
+    playing: false,
+    reversed: false,
+    positionMs: 0,
+    durationMs: 0,
+    rate: 1.0,
+    queue: [],
+    queueIndex: -1,
+    positions: {},
+  };
+  let sound: SoundLike | null = null;
+  let activeNote: Note | null = null;
+  // bumped by every load and by stop(); a load that is no longer the latest gives up
+  let loadToken = 0;
+  let loadingId: string | null = null;
+  const listeners = new Set<() => void>();
+
+  function setState(patch: Partial<PlaybackState>) {
+    state = { ...state, ...patch };
+    listeners.forEach((l) => l());
+  }
+
+  function report(message: string, error: unknown) {
+    if (deps.onError) deps.onError(message, error);
+  }
+
+  function rememberPosition(id: string, ms: number) {
+    const positions = withPosition(state.positions, id, ms);
+    setState({ positions });
+    if (deps.savePositions) {
+      deps.savePositions(positions).catch((e) => report("save position err", e));
+    }
+  }
+
+  // unloads the current sound, remembering where it was
+  async function unload() {
+    const current = sound;
+    const note = activeNote;
+    const reversed = state.reversed;
+    sound = null;
+    activeNote = null;
+    setState({ activeId: null, playing: false, reversed: false, positionMs: 0, durationMs: 0 });
+    if (!current) return;
+    try {
+      current.setOnPlaybackStatusUpdate(null);
+      const status = await current.getStatusAsync();
+      if (status.isLoaded) {
+        if (note && !reversed) rememberPosition(note.id, status.positionMillis);
+        await current.stopAsync();
+        await current.unloadAsync();
+      }
+    } catch (e) {
+      report("unload err", e);
+    }
+  }
+
+  // Loads and starts a note. Resolving the file (decrypting, rendering the reversed copy)
+  // can take a while; when another load or a stop comes in meanwhile, this one stops
+  // and unloads whatever it created.
+  async function load(note: Note, { reverse = false, positionMillis }: PlayOptions) {
+    const token = ++loadToken;
+    loadingId = note.id;
+    const current = () => token === loadToken;
+    try {
+      await unload();
+      if (!current()) return;
+
+      const { uri, reversed } = deps.resolveUri
+        ? await deps.resolveUri(note, reverse)
+        : { uri: note.uri, reversed: false };
+      if (!current()) return;
+      const start = positionMillis ?? (reversed ? 0 : state.positions[note.id] || 0);
+      const created = await deps.createSound(uri, {
+        shouldPlay: true,
+        rate: state.rate,
+        shouldCorrectPitch: true,
+        positionMillis: start,
+      });
+      if (!current()) {
+        created.unloadAsync().catch((e) => report("unload err", e));
+        return;
+      }
+      attach(note, created, reversed, start);
+    } finally {
+      if (current()) loadingId = null;
+    }
+  }
+
+  // makes a freshly created sound the active one and follows its status
+  function attach(note: Note, created: SoundLike, reversed: boolean, start: number) {
+    sound = created;
+    activeNote = note;
+    setState({
+      activeId: note.id,
+      playing: true,
+      reversed,
+      positionMs: start,
+      durationMs: note.duration || 0,
+    });
+
+    let lastSaved = start;
+    created.setOnPlaybackStatusUpdate((status) => {
+      if (!status.isLoaded || sound !== created) return;
+      if (status.positionMillis != null) {
+        setState({
+          positionMs: status.positionMillis,
+          durationMs: status.durationMillis || state.durationMs,
+          playing: status.isPlaying,
+        });
+        // persist now and then, so a crash or restart loses at most a few seconds
+        if (!reversed && Math.abs(status.positionMillis - lastSaved) > SAVE_EVERY_MS) {
+          lastSaved = status.positionMillis;
+          rememberPosition(note.id, status.positionMillis);
+        }
+      }
+      if (status.didJustFinish) finished(note, reversed);
+    });
+  }
+
+  // a note played to the end: it starts from the beginning next time, and the queue
+  // moves on
+  async function finished(note: Note, reversed: boolean) {
+    if (!reversed) rememberPosition(note.id, 0);
+    const current = sound;
+    sound = null;
+    activeNote = null;
+    if (current) current.unloadAsync().catch(() => {});
+    setState({ activeId: null, playing: false, reversed: false, positionMs: 0, durationMs: 0 });
+
+    const next = state.queueIndex + 1;
+    if (state.queueIndex >= 0 && next < state.queue.length) {
+      await playQueueIndex(next);
+    } else {
+      setState({ queue: [], queueIndex: -1 });
+    }
+  }
+
+  async function playQueueIndex(index: number) {
+    const note = state.queue[index];
+    if (!note) return;
+    setState({ queueIndex: index });
+    try {
+      await load(note, { positionMillis: 0 });
+    } catch (e) {
+      report("queue play err", e);
+    }
+  }
+
+  function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  async function restorePositions() {
+    if (!deps.loadPositions) return;
+    const positions = await deps.loadPositions();
+    setState({ positions: { ...positions, ...state.positions } });
+  }
+
+  // Plays a single note: resumes it if it is the paused note, otherwise loads it.
+  // Playing a note that is not in the queue ends the queue.
+  async function play(note: Note, options: PlayOptions = {}) {
+    const reverse = !!options.reverse;
+    if (
+      sound &&
+      state.activeId === note.id &&
+      state.reversed === reverse &&
+      options.positionMillis === undefined
+    ) {
+      await sound.playAsync();
+      setState({ playing: true });
+      return;
+    }
+    const inQueue = state.queue.findIndex((n) => n.id === note.id);
+    if (inQueue >= 0) setState({ queueIndex: inQueue });
+    else setState({ queue: [], queueIndex: -1 });
+    await load(note, options);
+  }
+
+  async function pause() {
+    if (!sound) return;
+    const status = await sound.pauseAsync();
+    setState({ playing: false });
+    if (status.isLoaded && activeNote && !state.reversed) {
+      rememberPosition(activeNote.id, status.positionMillis);
+    }
+  }
+
+  async function togglePause() {
+    if (!sound || !activeNote) return;
+    if (state.playing) await pause();
+    else await play(activeNote, { reverse: state.reversed });
+  }
+
+  // Jumps within the loaded note, or starts the note at that position.
+  async function seek(note: Note, ms: number) {
+    const target = Math.max(0, ms);
+    if (sound && state.activeId === note.id && !state.reversed) {
+      await sound.setPositionAsync(target);
+      setState({ positionMs: target });
+      if (!state.playing) rememberPosition(note.id, target);
+      return;
+    }
+    await play(note, { positionMillis: target });
+  }
+
+  async function skip(deltaMs: number) {
+    if (!sound || !activeNote) return;
+    const status = await sound.getStatusAsync();
+    if (!status.isLoaded) return;
+    const end = status.durationMillis || state.durationMs;
+    await seek(activeNote, Math.min(end, status.positionMillis + deltaMs));
+  }
+
+  async function setRate(rate: number) {
+    setState({ rate });
+    if (sound) await sound.setRateAsync(rate, true);
+  }
+
+  // Replaces the queue and starts playing it from `startIndex`.
+  async function playQueue(notes: Note[], startIndex = 0) {
+    if (notes.length === 0) return;
+    setState({ queue: notes, queueIndex: -1 });
+    await playQueueIndex(Math.max(0, Math.min(startIndex, notes.length - 1)));
+  }
+
+  async function next() {
+    if (state.queueIndex >= 0 && state.queueIndex + 1 < state.queue.length) {
+      await playQueueIndex(state.queueIndex + 1);
+    }
+  }
+
+  async function previous() {
+    if (activeNote && (state.positionMs > RESTART_THRESHOLD_MS || state.queueIndex <= 0)) {
+      await seek(activeNote, 0);
+    } else if (state.queueIndex > 0) {
+      await playQueueIndex(state.queueIndex - 1);
+    }
+  }
+
+  // Stops the note if it is loaded and forgets its saved position (its audio is about
+  // to change or go away). It is also dropped from the queue.
+  async function release(id: string) {
+    if (loadingId === id) loadToken++;
+    if (state.activeId === id) await unload();
+    if (state.positions[id] !== undefined) rememberPosition(id, 0);
+    if (state.queue.some((n) => n.id === id)) {
+      const queue = state.queue.filter((n) => n.id !== id);
+      const activeId = state.activeId;
+      setState({ queue, queueIndex: activeId ? queue.findIndex((n) => n.id === activeId) : -1 });
+    }
+  }
+
+  async function stop() {
+    loadToken++;
+    await unload();
+    setState({ queue: [], queueIndex: -1 });
+  }
+
+  return {
+    subscribe,
+    getState: () => state,
+    restorePositions,
+    play,
+    pause,
+    togglePause,
+    seek,
+    skip,
+    setRate,
+    playQueue,
+    next,
+    previous,
+    release,
+    stop,
+  };
+}
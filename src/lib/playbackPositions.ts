@@ -0,0 +1,37 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { isRecord } from "./guards";
+
+// Last playback position per note id, so a note resumes where it was left even after
+// the app restarts. Kept apart from the notes store because it changes during playback.
+
+const POSITIONS_KEY = "voice_playback_positions_v1";
+
+export type Positions = Record<string, number>;
+
+export async function loadPositions(): Promise<Positions> {
+  const saved = await AsyncStorage.getItem(POSITIONS_KEY);
+  if (!saved) return {};
+  try {
+    const parsed: unknown = JSON.parse(saved);
+    if (!isRecord(parsed)) return {};
+    const positions: Positions = {};
+    for (const [id, ms] of Object.entries(parsed)) {
+      if (typeof ms === "number" && isFinite(ms) && ms > 0) positions[id] = ms;
+    }
+    return positions;
+  } catch {
+    return {};
+  }
+}
+
+export async function savePositions(positions: Positions) {
+  await AsyncStorage.setItem(POSITIONS_KEY, JSON.stringify(positions));
+}
+
+// Returns a copy with the position set, or removed when it is at the very start.
+export function withPosition(positions: Positions, id: string, ms: number): Positions {
+  const next = { ...positions };
+  if (ms > 1000) next[id] = Math.round(ms);
+  else delete next[id];
+  return next;
+}
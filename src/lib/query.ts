@@ -0,0 +1,246 @@
+import type { Note, Transcript } from "../types";
+import { plainText } from "./richText";
+
+// Search query language for the note list. A query is a list of space-separated terms,
+// all of which must match:
+//
+//   standup               free text, matched against title, tags, notebook, transcript,
+//                         written text, bookmark labels and the YYYY-MM-DD date the note
+//                         was created
+//   "weekly sync"         quoted phrase
+//   title:"standup"       title contains
+//   tag:work  notebook:home
+//   transcript:groceries  only the transcript
+//   bookmark:todo         only bookmark labels
+//   text:groceries        only the written text
+//   is:text  is:audio     text entries or recordings
+//   duration:>2m          comparisons >, >=, <, <=, = ; units ms, s (default), m, h
+//   before:2026-05-01     created before that day (local time)
+//   after:yesterday       created on or after that day; also today, Nd (days ago)
+//   on:2026-05-01         created that day
+//   -term                 negates any term
+//
+// Parsing is pure; `now` is passed in so relative dates are testable.
+
+type Predicate = (note: Note) => boolean;
+
+export type ParsedQuery =
+  // terms: positive free-text/transcript words, used to highlight transcript segments
+  { ok: true; match: Predicate; terms: string[] } | { ok: false; error: string };
+
+type Token = { negate: boolean; field: string | null; value: string };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  const readValue = () => {
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) throw new Error("Missing closing quote");
+      const v = input.slice(i + 1, end);
+      i = end + 1;
+      return v;
+    }
+    const start = i;
+    while (i < input.length && !/\s/.test(input[i])) i++;
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+    let negate = false;
+    if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negate = true;
+      i++;
+    }
+    let field: string | null = null;
+    const m = /^([a-zA-Z]+):/.exec(input.slice(i));
+    if (m) {
+      field = m[1].toLowerCase();
+      i += m[0].length;
+    }
+    const value = readValue();
+    if (field && !value) throw new Error(`"${field}:" needs a value`);
+    if (value || field) tokens.push({ negate, field, value });
+  }
+  return tokens;
+}
+
+export function startOfDay(ts: number) {
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+// Returns the local-time start of the day a date value refers to.
+export function parseDay(value: string, now: number): number | null {
+  const v = value.toLowerCase();
+  if (v === "today") return startOfDay(now);
+  if (v === "yesterday") return startOfDay(startOfDay(now) - DAY / 2);
+  const ago = /^(\d+)d$/.exec(v);
+  if (ago) {
+    const d = new Date(startOfDay(now));
+    d.setDate(d.getDate() - Number(ago[1]));
+    return d.getTime();
+  }
+  const ymd = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(v);
+  if (ymd) {
+    const [y, mo, d] = [Number(ymd[1]), Number(ymd[2]), Number(ymd[3])];
+    const date = new Date(y, mo - 1, d);
+    if (date.getFullYear() !== y || date.getMonth() !== mo - 1 || date.getDate() !== d) return null;
+    return date.getTime();
+  }
+  return null;
+}
+
+function nextDay(dayStart: number) {
+  const d = new Date(dayStart);
+  d.setDate(d.getDate() + 1);
+  return d.getTime();
+}
+
+const UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+
+function parseDuration(value: string): Predicate | null {
+  const m = /^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)(ms|s|m|h)?$/.exec(value.toLowerCase());
+  if (!m) return null;
+  const op = m[1] || "=";
+  const unit = UNITS[m[3] || "s"];
+  const ms = Number(m[2]) * unit;
+  switch (op) {
+    case ">":
+      return (n) => n.duration > ms;
+    case ">=":
+      return (n) => n.duration >= ms;
+    case "<":
+      return (n) => n.duration < ms;
+    case "<=":
+      return (n) => n.duration <= ms;
+    default: {
+      // "=" compares at the precision written, so duration:2m means 2:00-2:59 and
+      // duration:1.5m means 1:30-1:35
+      const decimals = m[2].includes(".") ? m[2].length - m[2].indexOf(".") - 1 : 0;
+      const step = unit / Math.pow(10, decimals);
+      const steps = Math.round(ms / step);
+      return (n) => Math.floor(n.duration / step) === steps;
+    }
+  }
+}
+
+function includes(haystack: string | undefined, needle: string) {
+  return (haystack || "").toLowerCase().includes(needle.toLowerCase());
+}
+
+export function formatDay(ts: number) {
+  const d = new Date(ts);
+  const pad = (x: number) => String(x).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function transcriptText(transcript?: Transcript) {
+  return transcript ? transcript.segments.map((s) => s.text).join(" ") : "";
+}
+
+function bookmarkText(note: Note) {
+  return (note.bookmarks || []).map((b) => b.label || "").join(" ");
+}
+
+// Lowercased search text per note. Notes are replaced, never mutated, when they change,
+// so keying on the object keeps this index current without explicit invalidation.
+const textIndex = new WeakMap<Note, string>();
+
+// Text that free-text terms are matched against.
+export function noteText(note: Note) {
+  let text = textIndex.get(note);
+  if (text === undefined) {
+    text = [
+      note.title,
+      formatDay(note.createdAt),
+      note.notebook || "",
+      ...(note.tags || []).map((t) => "#" + t),
+      transcriptText(note.transcript),
+      note.body ? plainText(note.body) : "",
+      bookmarkText(note),
+    ]
+      .join("\n")
+      .toLowerCase();
+    textIndex.set(note, text);
+  }
+  return text;
+}
+
+// Transcript segments containing any of the terms.
+export function matchingSegments(transcript: Transcript | undefined, terms: string[]) {
+  if (!transcript || terms.length === 0) return [];
+  const lower = terms.map((t) => t.toLowerCase());
+  return transcript.segments.filter((s) => {
+    const text = s.text.toLowerCase();
+    return lower.some((t) => text.includes(t));
+  });
+}
+
+function termPredicate(token: Token, now: number): Predicate {
+  const { field, value } = token;
+  switch (field) {
+    case null:
+      return (n) => noteText(n).includes(value.toLowerCase());
+    case "transcript":
+      return (n) => includes(transcriptText(n.transcript), value);
+    case "bookmark":
+      return (n) => includes(bookmarkText(n), value);
+    case "text":
+      return (n) => includes(n.body ? plainText(n.body) : "", value);
+    case "is": {
+      const kind = value.toLowerCase();
+      if (kind !== "text" && kind !== "audio")
+        throw new Error(`Bad type "${value}" (use is:text or is:audio)`);
+      return (n) => (n.kind === "text" ? "text" : "audio") === kind;
+    }
+    case "title":
+      return (n) => includes(n.title, value);
+    case "tag": {
+      const tag = value.replace(/^#/, "").toLowerCase();
+      return (n) => (n.tags || []).includes(tag);
+    }
+    case "notebook":
+      return (n) => (n.notebook || "").toLowerCase() === value.toLowerCase();
+    case "duration": {
+      const p = parseDuration(value);
+      if (!p) throw new Error(`Bad duration "${value}" (try duration:>2m)`);
+      return p;
+    }
+    case "before":
+    case "after":
+    case "on": {
+      const day = parseDay(value, now);
+      if (day === null)
+        throw new Error(`Bad date "${value}" (use YYYY-MM-DD, today, yesterday or 7d)`);
+      if (field === "before") return (n) => n.createdAt < day;
+      if (field === "after") return (n) => n.createdAt >= day;
+      const end = nextDay(day);
+      return (n) => n.createdAt >= day && n.createdAt < end;
+    }
+    default:
+      throw new Error(`Unknown filter "${field}:"`);
+  }
+}
+
+export function parseQuery(input: string, now = Date.now()): ParsedQuery {
+  try {
+    const tokens = tokenize(input);
+    const predicates = tokens.map((t) => {
+      const p = termPredicate(t, now);
+      return t.negate ? (n: Note) => !p(n) : p;
+    });
+    const terms = tokens
+      .filter((t) => !t.negate && (t.field === null || t.field === "transcript"))
+      .map((t) => t.value);
+    return { ok: true, match: (n) => predicates.every((p) => p(n)), terms };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,205 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Audio } from "expo-av";
+import type { RecordingFormat } from "../types";
+import { isRecord } from "./guards";
+
+// Recording quality: a few named presets plus a custom one. The app keeps a default and
+// the recorder can override it for a single take. Android's recorder has no PCM output,
+// so WAV is only offered on iOS.
+//
+// Android's recorder can pause from Android 7 (API 24) on. Before that a take is
+// recorded in segments, one per stretch between pauses, as AAC in an ADTS stream: its
+// frames stand alone, so the segments join into one file by appending them.
+
+const SETTINGS_KEY = "voice_recording_settings_v1";
+
+export type RecordingPresetId = "voice" | "standard" | "high" | "wav" | "custom";
+
+export type RecordingQuality = {
+  encoding: "aac" | "pcm";
+  sampleRate: number;
+  channels: 1 | 2;
+  // bits per second, used for AAC only
+  bitRate: number;
+};
+
+export type RecordingSettings = {
+  preset: RecordingPresetId;
+  // used when `preset` is "custom"
+  custom: RecordingQuality;
+  // stop after this many seconds below the silence level; 0 is off
+  silenceStopSec: number;
+  // stop when a take reaches this length; 0 is off
+  maxDurationMin: number;
+};
+
+export const RECORDING_PRESETS: Record<
+  Exclude<RecordingPresetId, "custom">,
+  { label: string; quality: RecordingQuality }
+> = {
+  voice: {
+    label: "Voice",
+    quality: { encoding: "aac", sampleRate: 16000, channels: 1, bitRate: 32000 },
+  },
+  standard: {
+    label: "Standard",
+    quality: { encoding: "aac", sampleRate: 44100, channels: 1, bitRate: 64000 },
+  },
+  high: {
+    label: "High",
+    quality: { encoding: "aac", sampleRate: 44100, channels: 2, bitRate: 128000 },
+  },
+  wav: {
+    label: "WAV",
+    quality: { encoding: "pcm", sampleRate: 44100, channels: 1, bitRate: 705600 },
+  },
+};
+
+export const SAMPLE_RATE_CHOICES = [8000, 16000, 22050, 44100, 48000];
+export const BIT_RATE_CHOICES = [32000, 64000, 96000, 128000, 192000];
+export const SILENCE_STOP_CHOICES = [0, 5, 10, 30, 60];
+export const MAX_DURATION_CHOICES = [0, 5, 15, 30, 60];
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  preset: "standard",
+  custom: RECORDING_PRESETS.standard.quality,
+  silenceStopSec: 0,
+  maxDurationMin: 0,
+};
+
+// encoding each file extension stands for; files made by older builds only have that
+const EXTENSION_ENCODINGS: Record<string, string> = {
+  wav: "pcm",
+  m4a: "aac",
+  mp4: "aac",
+  aac: "aac",
+  "3gp": "amr",
+  caf: "ima4",
+  webm: "opus",
+};
+
+export function supportsPcm(platform: string) {
+  return platform === "ios";
+}
+
+export function supportsNativePause(platform: string, version: number | string) {
+  return platform !== "android" || Number(version) >= 24;
+}
+
+export function presetLabel(id: RecordingPresetId) {
+  return id === "custom" ? "Custom" : RECORDING_PRESETS[id].label;
+}
+
+export function presetIds(platform: string): RecordingPresetId[] {
+  const ids: RecordingPresetId[] = ["voice", "standard", "high", "wav", "custom"];
+  return supportsPcm(platform) ? ids : ids.filter((id) => id !== "wav");
+}
+
+// The quality a take with `preset` is recorded at on `platform`; PCM falls back to AAC
+// where it isn't available.
+export function resolveQuality(
+  settings: RecordingSettings,
+  platform: string,
+  preset: RecordingPresetId = settings.preset
+): RecordingQuality {
+  const quality = preset === "custom" ? settings.custom : RECORDING_PRESETS[preset].quality;
+  if (quality.encoding === "pcm" && !supportsPcm(platform)) {
+    return { ...quality, encoding: "aac", bitRate: RECORDING_PRESETS.high.quality.bitRate };
+  }
+  return quality;
+}
+
+// `segmented` takes are recorded in a stream that segments can be appended to (see above)
+export function toRecordingOptions(
+  quality: RecordingQuality,
+  segmented = false
+): Audio.RecordingOptions {
+  const { sampleRate, channels: numberOfChannels, bitRate } = quality;
+  return {
+    isMeteringEnabled: true,
+    android: {
+      extension: segmented ? ".aac" : ".m4a",
+      outputFormat: segmented
+        ? Audio.AndroidOutputFormat.AAC_ADTS
+        : Audio.AndroidOutputFormat.MPEG_4,
+      audioEncoder: Audio.AndroidAudioEncoder.AAC,
+      sampleRate,
+      numberOfChannels,
+      bitRate,
+    },
+    ios:
+      quality.encoding === "pcm"
+        ? {
+            extension: ".wav",
+            outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+            audioQuality: Audio.IOSAudioQuality.MAX,
+            sampleRate,
+            numberOfChannels,
+            bitRate,
+            linearPCMBitDepth: 16,
+            linearPCMIsBigEndian: false,
+            linearPCMIsFloat: false,
+          }
+        : {
+            extension: ".m4a",
+            outputFormat: Audio.IOSOutputFormat.MPEG4AAC,
+            audioQuality: Audio.IOSAudioQuality.MAX,
+            sampleRate,
+            numberOfChannels,
+            bitRate,
+          },
+    web: { mimeType: "audio/webm", bitsPerSecond: bitRate },
+  };
+}
+
+// Format of a file at `uri`. The extension is what the recorder actually produced, so
+// it wins over the requested quality.
+export function formatForUri(
+  uri: string,
+  quality?: RecordingQuality,
+  preset?: RecordingPresetId
+): RecordingFormat {
+  const container = (uri.split(".").pop() || "").toLowerCase();
+  const encoding = EXTENSION_ENCODINGS[container] || "unknown";
+  if (!quality) return { container, encoding };
+  return {
+    container,
+    encoding,
+    sampleRate: quality.sampleRate,
+    channels: quality.channels,
+    ...(encoding === "aac" ? { bitRate: quality.bitRate } : {}),
+    ...(preset ? { preset } : {}),
+  };
+}
+
+function isQuality(q: unknown): q is RecordingQuality {
+  return (
+    isRecord(q) &&
+    (q.encoding === "aac" || q.encoding === "pcm") &&
+    typeof q.sampleRate === "number" &&
+    (q.channels === 1 || q.channels === 2) &&
+    typeof q.bitRate === "number"
+  );
+}
+
+export async function loadRecordingSettings(): Promise<RecordingSettings> {
+  const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+  try {
+    const parsed: unknown = saved ? JSON.parse(saved) : null;
+    const preset = isRecord(parsed) && presetIds("ios").find((id) => id === parsed.preset);
+    if (isRecord(parsed) && preset) {
+      const limit = (v: unknown) => (typeof v === "number" && v > 0 ? v : 0);
+      return {
+        preset,
+        custom: isQuality(parsed.custom) ? parsed.custom : DEFAULT_RECORDING_SETTINGS.custom,
+        silenceStopSec: limit(parsed.silenceStopSec),
+        maxDurationMin: limit(parsed.maxDurationMin),
+      };
+    }
+  } catch {}
+  return DEFAULT_RECORDING_SETTINGS;
+}
+
+export async function saveRecordingSettings(settings: RecordingSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
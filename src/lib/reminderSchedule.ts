@@ -0,0 +1,136 @@
+import type { Note } from "../types";
+import { isRecord } from "./guards";
+import { formatDay } from "./query";
+
+// When journaling reminders are due. Pure: the notification side lives in reminders.ts,
+// which schedules what `upcomingReminders` returns as one-off notifications and computes
+// it again when the settings change, a note is recorded or the app comes back.
+// Times are local wall-clock times, so a reminder stays at 8:00 across DST changes.
+
+export type ReminderSchedule = {
+  id: string;
+  label: string;
+  // minutes after local midnight
+  time: number;
+  // weekdays it fires on, 0 = Sunday as in Date.getDay
+  days: number[];
+  enabled: boolean;
+};
+
+// reminders that fall inside are dropped; start after end wraps past midnight
+export type QuietHours = { enabled: boolean; start: number; end: number };
+
+export type ReminderSettings = {
+  schedules: ReminderSchedule[];
+  quietHours: QuietHours;
+  // no reminder on a day that already has a note
+  skipIfRecorded: boolean;
+};
+
+export type Reminder = { at: number; scheduleId: string; label: string };
+
+export const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND = [0, 6];
+export const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  schedules: [
+    { id: "weekday-morning", label: "Morning entry", time: 8 * 60, days: WEEKDAYS, enabled: false },
+    { id: "evening", label: "Evening entry", time: 21 * 60, days: EVERY_DAY, enabled: false },
+  ],
+  quietHours: { enabled: false, start: 22 * 60, end: 7 * 60 },
+  skipIfRecorded: true,
+};
+
+export function formatTime(minutes: number) {
+  const pad = (x: number) => String(x).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function sameDays(a: number[], b: number[]) {
+  return a.length === b.length && b.every((d) => a.includes(d));
+}
+
+export function describeDays(days: number[]) {
+  if (sameDays(days, EVERY_DAY)) return "Every day";
+  if (sameDays(days, WEEKDAYS)) return "Weekdays";
+  if (sameDays(days, WEEKEND)) return "Weekends";
+  if (days.length === 0) return "Never";
+  return [...days]
+    .sort((a, b) => a - b)
+    .map((d) => DAY_NAMES[d])
+    .join(", ");
+}
+
+export function inQuietHours(quiet: QuietHours, minutes: number) {
+  if (!quiet.enabled || quiet.start === quiet.end) return false;
+  return quiet.start < quiet.end
+    ? minutes >= quiet.start && minutes < quiet.end
+    : minutes >= quiet.start || minutes < quiet.end;
+}
+
+// Reminders after `from` over the next `days` days, earliest first. Two schedules at the
+// same minute give one reminder.
+export function upcomingReminders(
+  settings: ReminderSettings,
+  notes: Pick<Note, "createdAt">[],
+  from: number,
+  { days = 7, limit = 48 }: { days?: number; limit?: number } = {}
+): Reminder[] {
+  const recorded = new Set(settings.skipIfRecorded ? notes.map((n) => formatDay(n.createdAt)) : []);
+  const start = new Date(from);
+  const byTime = new Map<number, Reminder>();
+  for (let offset = 0; offset < days; offset++) {
+    const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (recorded.has(formatDay(date.getTime()))) continue;
+    for (const s of settings.schedules) {
+      if (!s.enabled || !s.days.includes(date.getDay())) continue;
+      if (inQuietHours(settings.quietHours, s.time)) continue;
+      const at = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        Math.floor(s.time / 60),
+        s.time % 60
+      ).getTime();
+      if (at > from && !byTime.has(at)) byTime.set(at, { at, scheduleId: s.id, label: s.label });
+    }
+  }
+  return [...byTime.values()].sort((a, b) => a.at - b.at).slice(0, limit);
+}
+
+function isMinutes(x: unknown): x is number {
+  return typeof x === "number" && Number.isInteger(x) && x >= 0 && x < 24 * 60;
+}
+
+// Settings as saved, with anything malformed replaced by the defaults.
+export function normalizeReminderSettings(raw: unknown): ReminderSettings {
+  const d = DEFAULT_REMINDER_SETTINGS;
+  if (!isRecord(raw)) return d;
+  const schedules = Array.isArray(raw.schedules)
+    ? raw.schedules.filter(isRecord).flatMap((s): ReminderSchedule[] => {
+        const { id, label, time, days } = s;
+        if (typeof id !== "string" || !isMinutes(time)) return [];
+        return [
+          {
+            id,
+            label: typeof label === "string" ? label : "",
+            time,
+            days: Array.isArray(days) ? EVERY_DAY.filter((day) => days.includes(day)) : EVERY_DAY,
+            enabled: s.enabled === true,
+          },
+        ];
+      })
+    : d.schedules;
+  const q: Record<string, unknown> = isRecord(raw.quietHours) ? raw.quietHours : {};
+  return {
+    schedules,
+    quietHours: {
+      enabled: q.enabled === true,
+      start: isMinutes(q.start) ? q.start : d.quietHours.start,
+      end: isMinutes(q.end) ? q.end : d.quietHours.end,
+    },
+    skipIfRecorded: typeof raw.skipIfRecorded === "boolean" ? raw.skipIfRecorded : d.skipIfRecorded,
+  };
+}
@@ -0,0 +1,104 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import type { Note } from "../types";
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  normalizeReminderSettings,
+  upcomingReminders,
+} from "./reminderSchedule";
+import type { Reminder, ReminderSettings } from "./reminderSchedule";
+import { createSerialQueue } from "./serialQueue";
+
+// Notification side of the reminders. The OS only holds one-off notifications for the
+// next few days (iOS keeps at most 64), so they are replaced whenever the schedule could
+// have changed; a reminder for a day that already has a note is cancelled that way too.
+
+const SETTINGS_KEY = "voice_reminders_v1";
+const CHANNEL_ID = "reminders";
+// identifiers of our notifications start with this, so others are left alone
+const ID_PREFIX = "reminder-";
+
+export async function loadReminderSettings(): Promise<ReminderSettings> {
+  const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+  try {
+    return saved ? normalizeReminderSettings(JSON.parse(saved)) : DEFAULT_REMINDER_SETTINGS;
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+}
+
+export async function saveReminderSettings(settings: ReminderSettings) {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function hasActiveReminders(settings: ReminderSettings) {
+  return settings.schedules.some((s) => s.enabled && s.days.length > 0);
+}
+
+// Asks for permission if it was not decided yet. Returns whether notifications may be shown.
+export async function requestReminderPermission() {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted || !current.canAskAgain) return current.granted;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+// replacing runs one at a time, so two quick changes don't leave both sets scheduled
+const serialized = createSerialQueue();
+
+// Replaces the scheduled reminders with the ones due from now on. Returns what was
+// scheduled; nothing without permission.
+export function rescheduleReminders(
+  settings: ReminderSettings,
+  notes: Note[],
+  now = Date.now()
+): Promise<Reminder[]> {
+  return serialized(async () => {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const request of scheduled) {
+      if (request.identifier.startsWith(ID_PREFIX)) {
+        await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      }
+    }
+    if (!hasActiveReminders(settings)) return [];
+    if (!(await Notifications.getPermissionsAsync()).granted) return [];
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: "Journal reminders",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+    const due = upcomingReminders(settings, notes, now);
+    for (const reminder of due) {
+      await Notifications.scheduleNotificationAsync({
+        identifier: ID_PREFIX + reminder.at,
+        content: {
+          title: reminder.label || "Time to journal",
+          body: "Tap to record today's entry.",
+          data: { kind: "reminder" },
+        },
+        trigger: { date: reminder.at, channelId: CHANNEL_ID },
+      });
+    }
+    return due;
+  });
+}
+
+function isReminder(response: Notifications.NotificationResponse) {
+  const data = response.notification.request.content.data;
+  return !!data && data.kind === "reminder";
+}
+
+// Calls `listener` when a reminder is tapped, including the one that launched the app.
+// Returns the unsubscribe function.
+export function onReminderOpened(listener: () => void) {
+  const seen = new Set<string>();
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    if (!response || !isReminder(response)) return;
+    // the launch response can also reach the listener
+    const key = `${response.notification.request.identifier}@${response.notification.date}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    listener();
+  };
+  const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+  Notifications.getLastNotificationResponseAsync().then(handle, () => {});
+  return () => subscription.remove();
+}
@@ -0,0 +1,126 @@
+import * as FileSystem from "expo-file-system";
+import type { Note } from "../types";
+import { readFileBytes } from "./audioFile";
+import { fileName, localizeNotes, parseArchive, verifyEntries, writeEntry } from "./archive";
+import type { Archive, ArchiveEntry } from "./archive";
+import { planMerge } from "./merge";
+import type { MergePlan, MergePolicy } from "./merge";
+import { sha256Hex } from "./sha256";
+import { isTextEntry } from "./entries";
+
+// Restore runs in two steps: prepareRestore() reads and verifies a backup without
+// changing anything, so a merge preview can be shown; commitRestore() then writes the
+// audio files for the chosen plan and returns the list to hand to saveNotes.
+
+export type RestoreSession = {
+  archive: Archive;
+  imported: Note[];
+  entries: Map<string, ArchiveEntry>;
+  corrupt: string[];
+  // audio content hashes, by note id
+  localHashes: Map<string, string>;
+  importedHashes: Map<string, string>;
+};
+
+export type RestoreReport = {
+  notes: Note[];
+  plan: MergePlan;
+  restoredFiles: number;
+  // titles of added notes whose audio was neither in the archive nor on this device
+  missing: string[];
+  // archive entries whose checksum did not match (not written to disk)
+  corrupt: string[];
+};
+
+async function hashFile(uri: string) {
+  // text entries have no file
+  if (!uri) return undefined;
+  try {
+    return sha256Hex(await readFileBytes(uri));
+  } catch {
+    return undefined;
+  }
+}
+
+export async function prepareRestore(
+  content: string,
+  local: Note[],
+  voiceDir: string,
+  // for a backup sealed under a passcode whose key is not loaded
+  passcode?: string
+): Promise<RestoreSession> {
+  const archive = parseArchive(content, passcode);
+  const { valid, corrupt } = verifyEntries(archive);
+  const imported = localizeNotes(archive, voiceDir);
+
+  const importedHashes = new Map<string, string>();
+  for (const n of imported) {
+    const entry = valid.get(fileName(n.uri));
+    // older backups carry no audio; fall back to a file already on this device
+    const h = entry ? entry.sha256 : await hashFile(n.uri);
+    if (h) importedHashes.set(n.id, h);
+  }
+
+  const localHashes = new Map<string, string>();
+  for (const n of local) {
+    const h = await hashFile(n.uri);
+    if (h) localHashes.set(n.id, h);
+  }
+
+  return { archive, imported, entries: valid, corrupt, localHashes, importedHashes };
+}
+
+export function planRestore(
+  session: RestoreSession,
+  local: Note[],
+  policy: MergePolicy,
+  newId: () => string
+): MergePlan {
+  return planMerge(local, session.imported, policy, {
+    hashOf: (n, side) =>
+      side === "local" ? session.localHashes.get(n.id) : session.importedHashes.get(n.id),
+    newId,
+  });
+}
+
+export async function commitRestore(
+  session: RestoreSession,
+  plan: MergePlan
+): Promise<RestoreReport> {
+  let restoredFiles = 0;
+  const missing: string[] = [];
+  const dropped = new Set<string>();
+
+  for (const item of plan.items) {
+    if (item.action === "skip" || isTextEntry(item.note)) continue;
+    const entry = session.entries.get(fileName(item.imported.uri));
+    if (item.action === "update") {
+      // the local file already holds the same audio
+      if (!entry || session.localHashes.get(item.local.id) === entry.sha256) continue;
+      await writeEntry(entry, item.note.uri);
+      restoredFiles++;
+      continue;
+    }
+    if (entry) {
+      await writeEntry(entry, item.note.uri);
+      restoredFiles++;
+    } else if (
+      item.note.uri !== item.imported.uri &&
+      (await FileSystem.getInfoAsync(item.imported.uri)).exists
+    ) {
+      // a renamed copy of audio that is already on the device
+      await FileSystem.copyAsync({ from: item.imported.uri, to: item.note.uri });
+    } else if (!(await FileSystem.getInfoAsync(item.note.uri)).exists) {
+      missing.push(item.note.title || fileName(item.note.uri));
+      dropped.add(item.note.id);
+    }
+  }
+
+  return {
+    notes: plan.result.filter((n) => !dropped.has(n.id)),
+    plan,
+    restoredFiles,
+    missing,
+    corrupt: session.corrupt,
+  };
+}
@@ -0,0 +1,101 @@
+// Written text of a note (`Note.body`). It is stored as a small Markdown subset, so it
+// reads fine as plain text and goes into the Markdown export unchanged:
+//
+//   # Heading          line starting with "# " (or more #)
+//   - item             bullet, also "* item"
+//   **bold**  _italic_ (or *italic*)
+//
+// Other lines are paragraphs; a blank line ends one. Anything else is kept as typed.
+
+export type RichSpan = { text: string; bold?: boolean; italic?: boolean };
+
+export type RichBlock = { type: "heading" | "bullet" | "paragraph"; spans: RichSpan[] };
+
+export type RichFormat = "bold" | "italic" | "heading" | "bullet";
+
+export type Selection = { start: number; end: number };
+
+const HEADING = /^#{1,6}\s+/;
+const BULLET = /^[-*]\s+/;
+const INLINE = /\*\*(.+?)\*\*|\*(\S(?:.*?\S)?)\*|_(\S(?:.*?\S)?)_/g;
+
+export function parseInline(text: string): RichSpan[] {
+  const spans: RichSpan[] = [];
+  let last = 0;
+  INLINE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = INLINE.exec(text))) {
+    const at = m.index;
+    if (at > last) spans.push({ text: text.slice(last, at) });
+    if (m[1] !== undefined) spans.push({ text: m[1], bold: true });
+    else spans.push({ text: m[2] !== undefined ? m[2] : m[3], italic: true });
+    last = at + m[0].length;
+  }
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+}
+
+export function parseRichText(body: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", spans: parseInline(paragraph.join("\n")) });
+    }
+    paragraph = [];
+  };
+  for (const raw of body.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    if (!line.trim()) {
+      endParagraph();
+    } else if (HEADING.test(line)) {
+      endParagraph();
+      blocks.push({ type: "heading", spans: parseInline(line.replace(HEADING, "")) });
+    } else if (BULLET.test(line)) {
+      endParagraph();
+      blocks.push({ type: "bullet", spans: parseInline(line.replace(BULLET, "")) });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+  return blocks;
+}
+
+// The text without markup, one line per block; used for search and the CSV export.
+export function plainText(body: string) {
+  return parseRichText(body)
+    .map((b) => b.spans.map((s) => s.text).join(""))
+    .join("\n");
+}
+
+function lineStart(text: string, at: number) {
+  return text.lastIndexOf("\n", at - 1) + 1;
+}
+
+// Applies a toolbar action to the selected text. Bold and italic wrap the selection (or
+// insert an empty pair at the cursor); heading and bullet toggle the prefix of every
+// selected line. Returns the new text and where the selection is afterwards.
+export function applyFormat(text: string, selection: Selection, format: RichFormat) {
+  const { start, end } = selection;
+  if (format === "bold" || format === "italic") {
+    const mark = format === "bold" ? "**" : "_";
+    const next = text.slice(0, start) + mark + text.slice(start, end) + mark + text.slice(end);
+    return { text: next, selection: { start: start + mark.length, end: end + mark.length } };
+  }
+  const prefix = format === "heading" ? "# " : "- ";
+  const pattern = format === "heading" ? HEADING : BULLET;
+  const from = lineStart(text, start);
+  const lines = text.slice(from, end).split("\n");
+  // toggle off only when every line already has it
+  const remove = lines.every((l) => pattern.test(l));
+  const changed = lines.map((l) => (remove ? l.replace(pattern, "") : prefix + l));
+  const replaced = changed.join("\n");
+  const delta = replaced.length - (end - from);
+  const next = text.slice(0, from) + replaced + text.slice(end);
+  const firstDelta = changed[0].length - lines[0].length;
+  return {
+    text: next,
+    selection: { start: Math.max(from, start + firstDelta), end: end + delta },
+  };
+}
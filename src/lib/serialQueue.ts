@@ -0,0 +1,13 @@
+// Runs async functions one at a time, in call order. A failure is returned to its
+// caller and does not stop the ones queued after it.
+
+export type SerialQueue = <T>(fn: () => Promise<T>) => Promise<T>;
+
+export function createSerialQueue(): SerialQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+  return (fn) => {
+    const run = tail.then(fn, fn);
+    tail = run.catch(() => {});
+    return run;
+  };
+}
@@ -0,0 +1,428 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import type { Note } from "../types";
+import { fileName, relocate } from "./archive";
+import { playableUri, readFileBytes, resealFile, reversedUriFor } from "./audioFile";
+import { utf8ToBytes } from "./crypto";
+import { isTextEntry } from "./entries";
+import { isRecord } from "./guards";
+import { validateNote } from "./notesRepository";
+import { createSerialQueue } from "./serialQueue";
+import { sha256Hex } from "./sha256";
+import { openString, sealString } from "./vault";
+import { PreconditionFailedError } from "./webdav";
+import type { DavClient, DavConfig } from "./webdav";
+
+// Two-way sync of the journal with a WebDAV folder.
+//
+// Locally, a change log keyed on note id remembers a hash of every note, when it last
+// changed, and which hash the server had after the last sync. A note whose hash differs
+// from its synced hash has local changes; one whose server hash differs has remote
+// changes. When both changed, the newer edit wins, and an edit always beats a delete.
+//
+// Remotely, voice-journal/manifest.json holds every note (or a tombstone) with the path
+// of its audio. Audio paths include a hash of the content, are uploaded to a ".part"
+// path and moved into place, and the manifest is written last with If-Match, so an
+// interrupted run never leaves the manifest pointing at a partial file and two devices
+// syncing at once can't overwrite each other (the loser starts over).
+//
+// The server copy is not encrypted: the passcode's data key is per device, so a sealed
+// manifest or file could not be read on the other devices. The manifest carries the
+// full notes (titles, transcripts, text entries) and the audio goes up decrypted.
+
+const CONFIG_KEY = "voice_sync_config_v1";
+const LOG_KEY = "voice_sync_log_v1";
+const ROOT = "voice-journal";
+const MANIFEST_PATH = ROOT + "/manifest.json";
+const AUDIO_DIR = ROOT + "/audio";
+const MANIFEST_FORMAT = "voice-journal-sync";
+// downloads wait here until the new manifest is committed
+const INCOMING_DIR = FileSystem.cacheDirectory + "sync/";
+const MAX_ATTEMPTS = 3;
+// downloads of one file whose content doesn't match its checksum before the note is left
+// for the next sync
+const DOWNLOAD_ATTEMPTS = 2;
+// hash recorded for a deleted note
+const DELETED = "deleted";
+
+export type ChangeEntry = {
+  // hash of the note as last seen on this device, or "deleted"
+  hash: string;
+  modifiedAt: number;
+  // hash the server had after the last sync that included this note
+  syncedHash?: string;
+  // sha-256 of the audio the server has for it
+  audioSha?: string;
+};
+
+export type ChangeLog = {
+  entries: Record<string, ChangeEntry>;
+  lastSyncAt?: number;
+};
+
+type RemoteEntry = {
+  hash: string;
+  modifiedAt: number;
+  // absent for deleted notes; `uri` holds just the local file name
+  note?: Note;
+  // absent for text entries too
+  audio?: { path: string; sha256: string };
+};
+
+type Manifest = {
+  format: typeof MANIFEST_FORMAT;
+  version: 1;
+  notes: Record<string, RemoteEntry>;
+};
+
+export type SyncResult = {
+  pushed: number;
+  pulled: number;
+  // notes deleted on another device and moved to the trash here
+  deleted: number;
+  conflicts: number;
+  // notes left for a later sync: local ones whose audio file is missing, and remote ones
+  // whose audio didn't download intact
+  skipped: number;
+};
+
+export type SyncOptions = {
+  dav: DavClient;
+  voiceDir: string;
+  // saves remote changes locally: upserted notes replace those with the same id, removed
+  // ones go to the trash. Called after the server accepted the run.
+  apply: (upserts: Note[], removals: Note[]) => Promise<void>;
+  now?: () => number;
+};
+
+// -- settings
+
+export async function loadSyncConfig(): Promise<DavConfig | null> {
+  const saved = await AsyncStorage.getItem(CONFIG_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(openString(saved));
+    return parsed && typeof parsed.url === "string" && parsed.url ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// null turns sync off
+export async function saveSyncConfig(config: DavConfig | null) {
+  if (!config) {
+    await AsyncStorage.multiRemove([CONFIG_KEY, LOG_KEY]);
+    return;
+  }
+  await AsyncStorage.setItem(CONFIG_KEY, sealString(JSON.stringify(config)));
+}
+
+// Rewrites the stored settings with the current key (see passcode).
+export async function resealSyncConfig() {
+  const saved = await AsyncStorage.getItem(CONFIG_KEY);
+  if (saved) await AsyncStorage.setItem(CONFIG_KEY, sealString(openString(saved)));
+}
+
+// -- change log
+
+// JSON with sorted keys, so the same note hashes the same on every device
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (isRecord(value)) {
+    const keys = Object.keys(value)
+      .filter((k) => value[k] !== undefined)
+      .sort();
+    return `{${keys.map((k) => JSON.stringify(k) + ":" + canonical(value[k])).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// the note as the server stores it: the uri is device specific, so only the file name
+function portable(note: Note): Note {
+  return { ...note, uri: fileName(note.uri) };
+}
+
+// notes are replaced, never mutated, so hashes can be cached per object
+const hashes = new WeakMap<Note, string>();
+
+export function noteHash(note: Note) {
+  let hash = hashes.get(note);
+  if (hash === undefined) {
+    hash = sha256Hex(utf8ToBytes(canonical(portable(note))));
+    hashes.set(note, hash);
+  }
+  return hash;
+}
+
+// Stamps notes that changed or disappeared since the log last saw them.
+export function trackChanges(log: ChangeLog, notes: Note[], now: number): ChangeLog {
+  const entries = { ...log.entries };
+  const present = new Set<string>();
+  for (const note of notes) {
+    present.add(note.id);
+    const hash = noteHash(note);
+    const entry = entries[note.id];
+    if (!entry || entry.hash !== hash) entries[note.id] = { ...entry, hash, modifiedAt: now };
+  }
+  for (const id of Object.keys(entries)) {
+    if (!present.has(id) && entries[id].hash !== DELETED) {
+      entries[id] = { ...entries[id], hash: DELETED, modifiedAt: now };
+    }
+  }
+  return { ...log, entries };
+}
+
+function isChangeEntry(x: unknown): x is ChangeEntry {
+  return (
+    isRecord(x) &&
+    typeof x.hash === "string" &&
+    typeof x.modifiedAt === "number" &&
+    (x.syncedHash === undefined || typeof x.syncedHash === "string") &&
+    (x.audioSha === undefined || typeof x.audioSha === "string")
+  );
+}
+
+// entries that don't check out are dropped, so their notes are synced again as new
+async function loadLog(): Promise<ChangeLog> {
+  const saved = await AsyncStorage.getItem(LOG_KEY);
+  try {
+    const parsed: unknown = saved ? JSON.parse(saved) : null;
+    if (isRecord(parsed) && isRecord(parsed.entries)) {
+      const entries: Record<string, ChangeEntry> = {};
+      for (const [id, entry] of Object.entries(parsed.entries)) {
+        if (isChangeEntry(entry)) entries[id] = entry;
+      }
+      return typeof parsed.lastSyncAt === "number"
+        ? { entries, lastSyncAt: parsed.lastSyncAt }
+        : { entries };
+    }
+  } catch {}
+  return { entries: {} };
+}
+
+async function saveLog(log: ChangeLog) {
+  await AsyncStorage.setItem(LOG_KEY, JSON.stringify(log));
+}
+
+// log reads and writes run one at a time, so a save during a sync isn't lost
+const serialized = createSerialQueue();
+
+// Call after every save of the notes list while sync is on.
+export function recordChanges(notes: Note[], now = Date.now()) {
+  return serialized(async () => saveLog(trackChanges(await loadLog(), notes, now)));
+}
+
+export async function lastSyncAt() {
+  return (await loadLog()).lastSyncAt || null;
+}
+
+// -- sync
+
+function parseManifest(text: string): Manifest {
+  const parsed = JSON.parse(text);
+  if (!parsed || parsed.format !== MANIFEST_FORMAT || typeof parsed.notes !== "object") {
+    throw new Error("The sync folder holds something other than a voice journal");
+  }
+  return parsed;
+}
+
+// Downloads audio to `localUri` and checks it against its checksum; a broken copy is
+// fetched again, and deleted if that doesn't help.
+async function downloadAudio(
+  dav: DavClient,
+  audio: { path: string; sha256: string },
+  localUri: string
+) {
+  for (let i = 0; i < DOWNLOAD_ATTEMPTS; i++) {
+    await dav.download(audio.path, localUri);
+    if (sha256Hex(await readFileBytes(localUri)) === audio.sha256) return true;
+  }
+  await FileSystem.deleteAsync(localUri, { idempotent: true });
+  return false;
+}
+
+function audioPath(note: Note, sha: string) {
+  const ext = note.uri.includes(".") ? note.uri.split(".").pop() : "m4a";
+  return `${AUDIO_DIR}/${note.id}-${sha.slice(0, 12)}.${ext}`;
+}
+
+type Plan = { push: string[]; pull: string[]; settle: string[]; conflicts: number };
+
+function plan(log: ChangeLog, manifest: Manifest): Plan {
+  const result: Plan = { push: [], pull: [], settle: [], conflicts: 0 };
+  const ids = new Set([...Object.keys(log.entries), ...Object.keys(manifest.notes)]);
+  for (const id of ids) {
+    const local = log.entries[id];
+    const remote = manifest.notes[id];
+    const localChanged = !!local && local.hash !== local.syncedHash;
+    const remoteChanged = !!remote && (!local || remote.hash !== local.syncedHash);
+    if (!localChanged && !remoteChanged) continue;
+    if (local && remote && local.hash === remote.hash) {
+      result.settle.push(id);
+    } else if (!remoteChanged) {
+      result.push.push(id);
+    } else if (!localChanged) {
+      result.pull.push(id);
+    } else {
+      result.conflicts++;
+      const localWins =
+        remote.hash === DELETED || (local.hash !== DELETED && local.modifiedAt > remote.modifiedAt);
+      (localWins ? result.push : result.pull).push(id);
+    }
+  }
+  return result;
+}
+
+async function attempt(notes: Note[], opts: SyncOptions): Promise<SyncResult> {
+  const { dav, voiceDir } = opts;
+  const now = opts.now || Date.now;
+  const log = trackChanges(await loadLog(), notes, now());
+  const current = await dav.getText(MANIFEST_PATH);
+  const manifest: Manifest = current
+    ? parseManifest(current.text)
+    : { format: MANIFEST_FORMAT, version: 1, notes: {} };
+  const byId = new Map(notes.map((n) => [n.id, n]));
+  const work = plan(log, manifest);
+  const entries = { ...log.entries };
+  const next: Manifest = { ...manifest, notes: { ...manifest.notes } };
+  const staleAudio: string[] = [];
+  let changed = false;
+  const result: SyncResult = {
+    pushed: 0,
+    pulled: 0,
+    deleted: 0,
+    conflicts: work.conflicts,
+    skipped: 0,
+  };
+
+  for (const id of work.settle) {
+    const remote = manifest.notes[id];
+    entries[id] = {
+      ...entries[id],
+      syncedHash: remote.hash,
+      ...(remote.audio ? { audioSha: remote.audio.sha256 } : {}),
+    };
+  }
+
+  // pulls: fetch what's needed now, apply once the manifest is committed
+  await FileSystem.makeDirectoryAsync(INCOMING_DIR, { intermediates: true }).catch(() => {});
+  const upserts: Note[] = [];
+  const removals: Note[] = [];
+  const incoming: { from: string; to: string }[] = [];
+  for (const id of work.pull) {
+    const remote = manifest.notes[id];
+    const local = byId.get(id);
+    if (remote.hash === DELETED || !remote.note) {
+      if (local) removals.push(local);
+      entries[id] = { hash: DELETED, modifiedAt: remote.modifiedAt, syncedHash: DELETED };
+      continue;
+    }
+    const checked = validateNote(relocate(remote.note, voiceDir));
+    if (typeof checked === "string") continue;
+    const exists = isTextEntry(checked) || (await FileSystem.getInfoAsync(checked.uri)).exists;
+    const known = entries[id] ? entries[id].audioSha : undefined;
+    if (remote.audio && (!exists || remote.audio.sha256 !== known)) {
+      const part = INCOMING_DIR + fileName(checked.uri);
+      if (!(await downloadAudio(dav, remote.audio, part))) {
+        result.skipped++;
+        continue;
+      }
+      incoming.push({ from: part, to: checked.uri });
+    }
+    upserts.push(checked);
+    entries[id] = {
+      hash: remote.hash,
+      modifiedAt: remote.modifiedAt,
+      syncedHash: remote.hash,
+      ...(remote.audio ? { audioSha: remote.audio.sha256 } : {}),
+    };
+  }
+
+  // pushes: audio first, the manifest entry only refers to files that are complete
+  for (const id of work.push) {
+    const entry = entries[id];
+    const remote = manifest.notes[id];
+    const note = byId.get(id);
+    if (!note) {
+      if (remote && remote.audio) staleAudio.push(remote.audio.path);
+      if (remote) {
+        next.notes[id] = { hash: DELETED, modifiedAt: entry.modifiedAt };
+        changed = true;
+        result.pushed++;
+      }
+      entries[id] = { ...entry, syncedHash: DELETED };
+      continue;
+    }
+    if (isTextEntry(note)) {
+      if (remote && remote.audio) staleAudio.push(remote.audio.path);
+      next.notes[id] = { hash: entry.hash, modifiedAt: entry.modifiedAt, note: portable(note) };
+      entries[id] = { ...entry, syncedHash: entry.hash };
+      changed = true;
+      result.pushed++;
+      continue;
+    }
+    const bytes = await readFileBytes(note.uri).catch(() => null);
+    if (!bytes) {
+      result.skipped++;
+      continue;
+    }
+    const sha = sha256Hex(bytes);
+    const path = audioPath(note, sha);
+    if (!(await dav.exists(path))) {
+      await dav.ensureFolder(ROOT);
+      await dav.ensureFolder(AUDIO_DIR);
+      // a plain copy when the file is sealed at rest
+      await dav.upload(await playableUri(note.uri, fileName(note.uri)), path + ".part");
+      await dav.move(path + ".part", path);
+    }
+    if (remote && remote.audio && remote.audio.path !== path) staleAudio.push(remote.audio.path);
+    next.notes[id] = {
+      hash: entry.hash,
+      modifiedAt: entry.modifiedAt,
+      note: portable(note),
+      audio: { path, sha256: sha },
+    };
+    entries[id] = { ...entry, syncedHash: entry.hash, audioSha: sha };
+    changed = true;
+    result.pushed++;
+  }
+
+  if (changed) {
+    await dav.ensureFolder(ROOT);
+    await dav.putText(MANIFEST_PATH, JSON.stringify(next), current ? current.etag : null);
+  }
+
+  // committed: bring the pulled audio and notes in
+  for (const { from, to } of incoming) {
+    await resealFile(from);
+    await FileSystem.deleteAsync(to, { idempotent: true });
+    // the reversed copy is of the old audio
+    const rev = reversedUriFor(to);
+    if (rev) await FileSystem.deleteAsync(rev, { idempotent: true });
+    await FileSystem.moveAsync({ from, to });
+  }
+  if (upserts.length > 0 || removals.length > 0) await opts.apply(upserts, removals);
+  result.pulled = upserts.length;
+  result.deleted = removals.length;
+  await saveLog({ entries, lastSyncAt: now() });
+
+  // no longer referenced by the manifest; a leftover here only costs space
+  for (const path of staleAudio) await dav.remove(path).catch(() => {});
+  return result;
+}
+
+// Runs one sync. `notes` is the current local list.
+export function syncJournal(notes: Note[], opts: SyncOptions): Promise<SyncResult> {
+  return serialized(async () => {
+    for (let i = 1; ; i++) {
+      try {
+        return await attempt(notes, opts);
+      } catch (e) {
+        // another device committed in between: plan again against its manifest
+        if (!(e instanceof PreconditionFailedError) || i >= MAX_ATTEMPTS) throw e;
+      } finally {
+        await FileSystem.deleteAsync(INCOMING_DIR, { idempotent: true });
+      }
+    }
+  });
+}
@@ -0,0 +1,58 @@
+import type { Note } from "../types";
+
+// Tags are stored lowercase, trimmed and without a leading "#", so "#Work" and "work"
+// are the same tag. Notebooks keep the user's casing.
+
+export function normalizeTag(tag: string) {
+  return tag.trim().replace(/^#+/, "").trim().toLowerCase();
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  const out: string[] = [];
+  for (const t of tags) {
+    const n = normalizeTag(t);
+    if (n && !out.includes(n)) out.push(n);
+  }
+  return out;
+}
+
+// Splits free text like "work, ideas #todo" into tags.
+export function parseTagInput(text: string): string[] {
+  return normalizeTags(text.split(/[,\s]+/));
+}
+
+export function collectTags(notes: Note[]): string[] {
+  const set = new Set<string>();
+  notes.forEach((n) => (n.tags || []).forEach((t) => set.add(t)));
+  return [...set].sort();
+}
+
+export function collectNotebooks(notes: Note[]): string[] {
+  const set = new Set<string>();
+  notes.forEach((n) => n.notebook && set.add(n.notebook));
+  return [...set].sort((a, b) => a.localeCompare(b));
+}
+
+export type NoteFilter = {
+  tags: string[];
+  notebook: string | null;
+};
+
+// A note matches when it is in the notebook (if any) and carries every selected tag.
+export function matchesFilter(note: Note, filter: NoteFilter) {
+  if (filter.notebook && note.notebook !== filter.notebook) return false;
+  const tags = note.tags || [];
+  return filter.tags.every((t) => tags.includes(t));
+}
+
+// Drops selected tags and the notebook that no note carries any more (after a retag or
+// delete), so the list isn't left filtered by something the bar no longer shows.
+// Returns the same filter when nothing was dropped.
+export function pruneFilter(filter: NoteFilter, notes: Note[]): NoteFilter {
+  const tags = collectTags(notes);
+  const keptTags = filter.tags.filter((t) => tags.includes(t));
+  const notebook =
+    filter.notebook && collectNotebooks(notes).includes(filter.notebook) ? filter.notebook : null;
+  if (keptTags.length === filter.tags.length && notebook === filter.notebook) return filter;
+  return { tags: keptTags, notebook };
+}
@@ -0,0 +1,99 @@
+import type { Transcript, TranscriptSegment } from "../types";
+import { readWavFile } from "./audioFile";
+import { durationMillis } from "./wav";
+
+// A transcription engine turns a note's audio into timestamped segments. Engines are
+// swappable; the app only depends on this shape.
+export type TranscriptionEngine = {
+  id: string;
+  transcribe: (uri: string, durationMs: number) => Promise<TranscriptSegment[]>;
+};
+
+export async function transcribeNote(
+  engine: TranscriptionEngine,
+  uri: string,
+  durationMs: number
+): Promise<Transcript> {
+  const segments = await engine.transcribe(uri, durationMs);
+  return { engine: engine.id, createdAt: Date.now(), segments };
+}
+
+const WORDS = [
+  "today",
+  "idea",
+  "meeting",
+  "remember",
+  "call",
+  "project",
+  "tomorrow",
+  "feeling",
+  "morning",
+  "work",
+  "plan",
+  "write",
+  "family",
+  "walk",
+  "read",
+  "finish",
+  "start",
+  "think",
+  "weekend",
+  "list",
+  "groceries",
+  "email",
+  "review",
+  "notes",
+  "goal",
+];
+
+function seedFrom(text: string) {
+  // FNV-1a
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function random(seed: number) {
+  // mulberry32
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SEGMENT_MS = 4000;
+
+// Offline stand-in engine: produces the same placeholder words for the same file every
+// time, one segment per 4 seconds of audio. Useful for development and for exercising
+// search and seeking without a speech service.
+export function createFakeTranscriptionEngine(): TranscriptionEngine {
+  return {
+    id: "fake-local",
+    async transcribe(uri, durationMs) {
+      let length = durationMs;
+      if (!length) {
+        const wav = await readWavFile(uri).catch(() => null);
+        length = wav ? durationMillis(wav) : 0;
+      }
+      const name = uri.slice(uri.lastIndexOf("/") + 1);
+      const rand = random(seedFrom(name));
+      const segments: TranscriptSegment[] = [];
+      for (let start = 0; start < length; start += SEGMENT_MS) {
+        const count = 3 + Math.floor(rand() * 5);
+        const words = Array.from({ length: count }, () => WORDS[Math.floor(rand() * WORDS.length)]);
+        segments.push({
+          startMs: start,
+          endMs: Math.min(start + SEGMENT_MS, length),
+          text: words.join(" "),
+        });
+      }
+      return segments;
+    },
+  };
+}
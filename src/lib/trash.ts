@@ -0,0 +1,119 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import type { Note } from "../types";
+import { fileName } from "./archive";
+import { reversedUriFor } from "./audioFile";
+import { isTextEntry } from "./entries";
+import { isRecord } from "./guards";
+import { validateNote } from "./notesRepository";
+import { openString, sealString } from "./vault";
+
+// Deleted notes go to the trash first: the record moves to its own store and the audio
+// file to a trash folder, so both can be put back. Items older than the retention period
+// are purged for good when the journal is opened.
+
+const TRASH_KEY = "voice_notes_trash_v1";
+const RETENTION_KEY = "voice_trash_retention_days";
+const DAY = 24 * 60 * 60 * 1000;
+
+export const RETENTION_CHOICES = [1, 7, 30, 90];
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export type TrashedNote = {
+  // the note as it was, with its original uri
+  note: Note;
+  deletedAt: number;
+  // where the audio is while in the trash; empty when there is none (text entries,
+  // audio that was already missing)
+  trashUri: string;
+};
+
+function isTrashedNote(raw: unknown): raw is TrashedNote {
+  return (
+    isRecord(raw) &&
+    typeof raw.deletedAt === "number" &&
+    typeof raw.trashUri === "string" &&
+    typeof validateNote(raw.note) !== "string"
+  );
+}
+
+export async function loadTrash(): Promise<TrashedNote[]> {
+  const saved = await AsyncStorage.getItem(TRASH_KEY);
+  if (!saved) return [];
+  const text = openString(saved);
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed.filter(isTrashedNote) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function saveTrash(items: TrashedNote[]) {
+  await AsyncStorage.setItem(TRASH_KEY, sealString(JSON.stringify(items)));
+}
+
+// Rewrites the trash store with the current key (see passcode).
+export async function resealTrash() {
+  const saved = await AsyncStorage.getItem(TRASH_KEY);
+  if (saved) await AsyncStorage.setItem(TRASH_KEY, sealString(openString(saved)));
+}
+
+export async function loadRetentionDays(): Promise<number> {
+  const saved = await AsyncStorage.getItem(RETENTION_KEY);
+  const days = saved ? Number(saved) : NaN;
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+export async function saveRetentionDays(days: number) {
+  await AsyncStorage.setItem(RETENTION_KEY, String(days));
+}
+
+export function expiresAt(item: TrashedNote, retentionDays: number) {
+  return item.deletedAt + retentionDays * DAY;
+}
+
+// Moves the note's audio into `trashDir`. The reversed copy can be regenerated, so it
+// is deleted instead. Throws when the audio can't be moved, so the note isn't trashed
+// with its file left behind in the notes folder.
+export async function moveToTrash(note: Note, trashDir: string): Promise<TrashedNote> {
+  if (isTextEntry(note)) return { note, deletedAt: Date.now(), trashUri: "" };
+  // a note whose file is already gone can still be trashed
+  if (!(await FileSystem.getInfoAsync(note.uri)).exists) {
+    return { note, deletedAt: Date.now(), trashUri: "" };
+  }
+  await FileSystem.makeDirectoryAsync(trashDir, { intermediates: true }).catch(() => {});
+  const trashUri = trashDir + fileName(note.uri);
+  await FileSystem.moveAsync({ from: note.uri, to: trashUri });
+  const rev = reversedUriFor(note.uri);
+  if (rev) await FileSystem.deleteAsync(rev, { idempotent: true });
+  return { note, deletedAt: Date.now(), trashUri };
+}
+
+// Moves the audio back to where the note expects it and returns the note.
+export async function restoreFromTrash(item: TrashedNote): Promise<Note> {
+  if (item.trashUri && (await FileSystem.getInfoAsync(item.trashUri)).exists) {
+    await FileSystem.moveAsync({ from: item.trashUri, to: item.note.uri });
+  }
+  return item.note;
+}
+
+export async function purge(items: TrashedNote[]) {
+  for (const item of items) {
+    if (item.trashUri) await FileSystem.deleteAsync(item.trashUri, { idempotent: true });
+  }
+}
+
+// Purges items past the retention period and returns the ones that are kept.
+export async function purgeExpired(
+  items: TrashedNote[],
+  retentionDays: number,
+  now = Date.now()
+): Promise<TrashedNote[]> {
+  const expired = items.filter((i) => expiresAt(i, retentionDays) <= now);
+  if (expired.length === 0) return items;
+  await purge(expired);
+  const kept = items.filter((i) => !expired.includes(i));
+  await saveTrash(kept);
+  return kept;
+}
@@ -0,0 +1,184 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { base64ToBytes, bytesToBase64 } from "./base64";
+import {
+  KEY_LENGTH,
+  bytesToUtf8,
+  keyId,
+  open,
+  pbkdf2,
+  randomBytes,
+  seal,
+  sealedKeyId,
+  utf8ToBytes,
+} from "./crypto";
+import { isRecord } from "./guards";
+
+// Holds the keys for data at rest while the app is unlocked.
+//
+// Notes and audio are sealed with a random data key. The data key is stored wrapped
+// (sealed) with a key derived from the passcode, so the passcode itself is never stored
+// and a wrong passcode is detected by the wrapped key failing to open. Data written
+// before the passcode was set is plain and is read as is.
+
+const LOCK_KEY = "voice_lock_v1";
+const PBKDF2_ITERATIONS = 10000;
+// prefix marking a sealed string value in AsyncStorage
+const SEALED_PREFIX = "vje1:";
+
+export type PasscodeLock = {
+  salt: string; // base64
+  iterations: number;
+  // data key sealed with the passcode key, base64
+  wrappedKey: string;
+};
+
+export type LockConfig = PasscodeLock & {
+  // data key being replaced by a passcode change, sealed with the new passcode key
+  previousKey?: string;
+  // set while everything is being rewritten, so an interrupted run is finished on unlock
+  pending?: "seal" | "unseal";
+};
+
+// Thrown when sealed data is read, or data must be sealed, while the key is not loaded.
+export class LockedError extends Error {
+  constructor(message = "The journal is locked") {
+    super(message);
+    this.name = "LockedError";
+  }
+}
+
+let config: LockConfig | null = null;
+// data keys by key id; the one new data is sealed with is `writeKey`
+let keys = new Map<string, Uint8Array>();
+let writeKey: Uint8Array | null = null;
+
+function isLockConfig(x: unknown): x is LockConfig {
+  return (
+    isRecord(x) &&
+    typeof x.salt === "string" &&
+    x.salt.length > 0 &&
+    typeof x.iterations === "number" &&
+    Number.isInteger(x.iterations) &&
+    x.iterations > 0 &&
+    typeof x.wrappedKey === "string" &&
+    x.wrappedKey.length > 0 &&
+    (x.previousKey === undefined || typeof x.previousKey === "string") &&
+    (x.pending === undefined || x.pending === "seal" || x.pending === "unseal")
+  );
+}
+
+export async function loadLockConfig(): Promise<LockConfig | null> {
+  const saved = await AsyncStorage.getItem(LOCK_KEY);
+  if (!saved) {
+    config = null;
+    return null;
+  }
+  const parsed: unknown = JSON.parse(saved);
+  if (!isLockConfig(parsed)) throw new Error("The saved passcode settings are damaged");
+  config = parsed;
+  return config;
+}
+
+export async function saveLockConfig(next: LockConfig | null) {
+  if (next) await AsyncStorage.setItem(LOCK_KEY, JSON.stringify(next));
+  else await AsyncStorage.removeItem(LOCK_KEY);
+  config = next;
+}
+
+export function lockConfig() {
+  return config;
+}
+
+export function isUnlocked() {
+  return !config || keys.size > 0;
+}
+
+// Whether data written now must be sealed.
+function sealing() {
+  return !!config && config.pending !== "unseal";
+}
+
+export function passcodeKey(passcode: string, lock: { salt: string; iterations: number }) {
+  return pbkdf2(passcode, base64ToBytes(lock.salt), lock.iterations);
+}
+
+// Opens the data key of a passcode lock; throws if the passcode is wrong.
+export function unwrapKey(passcode: string, lock: PasscodeLock) {
+  return open(passcodeKey(passcode, lock), base64ToBytes(lock.wrappedKey));
+}
+
+// A new lock for `dataKey` under `passcode`, optionally carrying the key it replaces.
+export function wrapKey(passcode: string, dataKey: Uint8Array, previous?: Uint8Array): LockConfig {
+  const salt = bytesToBase64(randomBytes(16));
+  const passKey = passcodeKey(passcode, { salt, iterations: PBKDF2_ITERATIONS });
+  const lock: LockConfig = {
+    salt,
+    iterations: PBKDF2_ITERATIONS,
+    wrappedKey: bytesToBase64(seal(passKey, dataKey)),
+  };
+  if (previous) lock.previousKey = bytesToBase64(seal(passKey, previous));
+  return lock;
+}
+
+export function newDataKey() {
+  return randomBytes(KEY_LENGTH);
+}
+
+// Loads the data key(s) of the saved config. Returns false if the passcode is wrong.
+export function unlock(passcode: string): boolean {
+  if (!config) return true;
+  let passKey: Uint8Array;
+  let dataKey: Uint8Array;
+  try {
+    passKey = passcodeKey(passcode, config);
+    dataKey = open(passKey, base64ToBytes(config.wrappedKey));
+  } catch {
+    return false;
+  }
+  useKeys(dataKey, config.previousKey ? open(passKey, base64ToBytes(config.previousKey)) : null);
+  return true;
+}
+
+// Sets the data key new data is sealed with, plus an older key that can still be read.
+export function useKeys(dataKey: Uint8Array | null, previous: Uint8Array | null = null) {
+  keys = new Map();
+  for (const k of [dataKey, previous]) if (k) keys.set(keyId(k), k);
+  writeKey = dataKey;
+}
+
+export function lock() {
+  keys = new Map();
+  writeKey = null;
+}
+
+export function currentKey() {
+  return writeKey;
+}
+
+export function keyFor(id: string) {
+  return keys.get(id) || null;
+}
+
+export function sealBytes(plain: Uint8Array): Uint8Array {
+  if (!sealing()) return plain;
+  if (!writeKey) throw new LockedError();
+  return seal(writeKey, plain);
+}
+
+export function openBytes(bytes: Uint8Array): Uint8Array {
+  const id = sealedKeyId(bytes);
+  if (id === null) return bytes;
+  const key = keys.get(id);
+  if (!key) throw new LockedError();
+  return open(key, bytes);
+}
+
+export function sealString(text: string): string {
+  if (!sealing()) return text;
+  return SEALED_PREFIX + bytesToBase64(sealBytes(utf8ToBytes(text)));
+}
+
+export function openString(value: string): string {
+  if (!value.startsWith(SEALED_PREFIX)) return value;
+  return bytesToUtf8(openBytes(base64ToBytes(value.slice(SEALED_PREFIX.length))));
+}
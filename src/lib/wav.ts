@@ -0,0 +1,193 @@
+// Pure helpers for reading PCM WAV (RIFF) files. No file system access here so the
+// functions can be used on any byte buffer.
+
+export type WavData = {
+  audioFormat: number; // 1 = integer PCM, 3 = IEEE float
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  // raw bytes of the "data" chunk (interleaved frames)
+  data: Uint8Array;
+};
+
+const FORMAT_PCM = 1;
+const FORMAT_FLOAT = 3;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+  let s = "";
+  for (let i = 0; i < length; i++) s += String.fromCharCode(bytes[offset + i]);
+  return s;
+}
+
+export function isWav(bytes: Uint8Array) {
+  return bytes.length >= 12 && ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WAVE";
+}
+
+export function parseWav(bytes: Uint8Array): WavData {
+  if (!isWav(bytes)) throw new Error("Not a WAV file");
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let fmt: Omit<WavData, "data"> | null = null;
+  let data: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt ") {
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === FORMAT_EXTENSIBLE && size >= 26) {
+        // sub-format GUID starts with the real format code
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      fmt = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      // some writers leave the size at 0 or 0xffffffff while streaming; clamp to what we have
+      data = bytes.subarray(body, Math.min(body + size, bytes.length));
+    }
+    // chunks are word aligned
+    offset = body + size + (size % 2);
+  }
+
+  if (!fmt) throw new Error("WAV file has no fmt chunk");
+  if (!data) throw new Error("WAV file has no data chunk");
+  if (fmt.audioFormat !== FORMAT_PCM && fmt.audioFormat !== FORMAT_FLOAT) {
+    throw new Error(`Unsupported WAV encoding (${fmt.audioFormat})`);
+  }
+  if (fmt.channels < 1 || ![8, 16, 24, 32].includes(fmt.bitsPerSample)) {
+    throw new Error("Unsupported WAV sample layout");
+  }
+  return { ...fmt, data };
+}
+
+export function blockAlign(wav: Omit<WavData, "data">) {
+  return wav.channels * (wav.bitsPerSample / 8);
+}
+
+export function frameCount(wav: WavData) {
+  return Math.floor(wav.data.length / blockAlign(wav));
+}
+
+export function durationMillis(wav: WavData) {
+  return Math.round((frameCount(wav) / wav.sampleRate) * 1000);
+}
+
+function readSample(view: DataView, offset: number, bits: number, float: boolean) {
+  if (float) return bits === 32 ? view.getFloat32(offset, true) : 0;
+  switch (bits) {
+    case 8:
+      return (view.getUint8(offset) - 128) / 128;
+    case 16:
+      return view.getInt16(offset, true) / 32768;
+    case 24: {
+      const v =
+        view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+      return v / 8388608;
+    }
+    default:
+      return view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+// Decodes the data chunk into mono samples in the range -1..1 (channels are averaged).
+export function decodeMono(wav: WavData): Float32Array {
+  const frames = frameCount(wav);
+  const bytesPerSample = wav.bitsPerSample / 8;
+  const align = blockAlign(wav);
+  const float = wav.audioFormat === FORMAT_FLOAT;
+  const view = new DataView(wav.data.buffer, wav.data.byteOffset, wav.data.byteLength);
+  const out = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let c = 0; c < wav.channels; c++) {
+      sum += readSample(view, f * align + c * bytesPerSample, wav.bitsPerSample, float);
+    }
+    out[f] = sum / wav.channels;
+  }
+  return out;
+}
+
+// Returns a copy of the audio with its frames in reverse order. Frames are moved as whole
+// blocks so every channel stays aligned and the sample encoding is untouched.
+export function reverseFrames(wav: WavData): WavData {
+  const align = blockAlign(wav);
+  const frames = frameCount(wav);
+  const out = new Uint8Array(frames * align);
+  for (let f = 0; f < frames; f++) {
+    const src = f * align;
+    out.set(wav.data.subarray(src, src + align), (frames - 1 - f) * align);
+  }
+  return { ...wav, data: out };
+}
+
+// Serializes audio back into a canonical 44-byte-header WAV file.
+export function encodeWav(wav: WavData): Uint8Array {
+  const header = 44;
+  const pad = wav.data.length % 2;
+  const bytes = new Uint8Array(header + wav.data.length + pad);
+  const view = new DataView(bytes.buffer);
+  const writeAscii = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) bytes[offset + i] = s.charCodeAt(i);
+  };
+  const align = blockAlign(wav);
+  writeAscii(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, wav.audioFormat, true);
+  view.setUint16(22, wav.channels, true);
+  view.setUint32(24, wav.sampleRate, true);
+  view.setUint32(28, wav.sampleRate * align, true);
+  view.setUint16(32, align, true);
+  view.setUint16(34, wav.bitsPerSample, true);
+  writeAscii(36, "data");
+  view.setUint32(40, wav.data.length, true);
+  bytes.set(wav.data, header);
+  return bytes;
+}
+
+// Returns frames [start, end) as a new WavData sharing the format.
+export function sliceFrames(wav: WavData, start: number, end: number): WavData {
+  const align = blockAlign(wav);
+  const frames = frameCount(wav);
+  const s = Math.max(0, Math.min(frames, Math.floor(start)));
+  const e = Math.max(s, Math.min(frames, Math.floor(end)));
+  return { ...wav, data: wav.data.slice(s * align, e * align) };
+}
+
+export function msToFrame(wav: Omit<WavData, "data">, ms: number) {
+  return Math.round((ms / 1000) * wav.sampleRate);
+}
+
+// Resamples mono audio to another rate with linear interpolation.
+export function resample(samples: Float32Array, from: number, to: number): Float32Array {
+  if (from === to) return samples;
+  const out = new Float32Array(Math.round((samples.length * to) / from));
+  const step = from / to;
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * step;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, samples.length - 1);
+    const t = pos - i0;
+    out[i] = samples[i0] * (1 - t) + samples[i1] * t;
+  }
+  return out;
+}
+
+// Encodes mono samples (-1..1) as 16-bit integer PCM.
+export function encodeMono16(samples: Float32Array, sampleRate: number): WavData {
+  const data = new Uint8Array(samples.length * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, s < 0 ? s * 32768 : s * 32767, true);
+  }
+  return { audioFormat: FORMAT_PCM, channels: 1, sampleRate, bitsPerSample: 16, data };
+}
@@ -0,0 +1,53 @@
+import { readWavFile } from "./audioFile";
+import { decodeMono } from "./wav";
+
+// number of peaks stored per note; NoteItem resamples this to the number of bars it draws
+export const PEAK_COUNT = 64;
+
+// Splits the samples into `count` buckets and returns the absolute peak of each bucket,
+// normalized so the loudest bucket is 1. Silent audio yields all zeros.
+export function computePeaks(samples: Float32Array, count = PEAK_COUNT): number[] {
+  const peaks = new Array<number>(count).fill(0);
+  if (samples.length === 0) return peaks;
+  const bucket = samples.length / count;
+  let max = 0;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * bucket);
+    const end = Math.max(start + 1, Math.floor((i + 1) * bucket));
+    let peak = 0;
+    for (let j = start; j < end && j < samples.length; j++) {
+      const v = Math.abs(samples[j]);
+      if (v > peak) peak = v;
+    }
+    peaks[i] = peak;
+    if (peak > max) max = peak;
+  }
+  if (max === 0) return peaks;
+  return peaks.map((p) => Math.round((p / max) * 1000) / 1000);
+}
+
+// Resamples stored peaks to a different bar count, keeping the max of each group.
+export function resamplePeaks(peaks: number[], count: number): number[] {
+  if (peaks.length === 0) return new Array<number>(count).fill(0);
+  const out: number[] = [];
+  const step = peaks.length / count;
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor(i * step);
+    const end = Math.max(start + 1, Math.floor((i + 1) * step));
+    let peak = 0;
+    for (let j = start; j < end && j < peaks.length; j++) peak = Math.max(peak, peaks[j]);
+    out.push(peak);
+  }
+  return out;
+}
+
+// Reads an audio file and computes its peaks. Returns null for formats we cannot decode
+// (currently anything other than PCM/float WAV).
+export async function computePeaksForUri(
+  uri: string,
+  count = PEAK_COUNT
+): Promise<number[] | null> {
+  const wav = await readWavFile(uri);
+  if (!wav) return null;
+  return computePeaks(decodeMono(wav), count);
+}
@@ -0,0 +1,133 @@
+import * as FileSystem from "expo-file-system";
+import { bytesToBase64 } from "./base64";
+import { utf8ToBytes } from "./crypto";
+
+// The small part of WebDAV the sync needs. Paths are relative to the configured folder
+// and use "/" between segments. Text goes through fetch; audio files are streamed from
+// and to disk by expo-file-system, so large recordings never pass through JS memory.
+// memoryDav implements the same interface in-process.
+
+export type DavConfig = {
+  // folder on the server, e.g. https://dav.example.com/remote.php/dav/files/me/journal
+  url: string;
+  username: string;
+  password: string;
+};
+
+export type DavClient = {
+  // null when the file doesn't exist
+  getText(path: string): Promise<{ text: string; etag: string | null } | null>;
+  // `etag` makes the write conditional: it must match the current version, or the file
+  // must not exist when it is null. A mismatch throws PreconditionFailedError.
+  putText(path: string, text: string, etag?: string | null): Promise<void>;
+  exists(path: string): Promise<boolean>;
+  upload(localUri: string, path: string): Promise<void>;
+  download(path: string, localUri: string): Promise<void>;
+  move(from: string, to: string): Promise<void>;
+  // missing files are ignored
+  remove(path: string): Promise<void>;
+  // creates the folder if it doesn't exist yet
+  ensureFolder(path: string): Promise<void>;
+};
+
+export class DavError extends Error {
+  constructor(readonly status: number, message = `WebDAV request failed (${status})`) {
+    super(message);
+    this.name = "DavError";
+  }
+}
+
+export class PreconditionFailedError extends DavError {
+  constructor() {
+    super(412, "The file was changed on the server");
+    this.name = "PreconditionFailedError";
+  }
+}
+
+export function createDavClient(config: DavConfig, fetchImpl: typeof fetch = fetch): DavClient {
+  const base = config.url.replace(/\/+$/, "") + "/";
+  const auth: Record<string, string> = config.username
+    ? {
+        Authorization:
+          "Basic " + bytesToBase64(utf8ToBytes(`${config.username}:${config.password}`)),
+      }
+    : {};
+  const urlFor = (path: string) => base + path.split("/").map(encodeURIComponent).join("/");
+
+  async function request(
+    method: string,
+    path: string,
+    headers: Record<string, string> = {},
+    body?: string
+  ) {
+    const res = await fetchImpl(urlFor(path), { method, headers: { ...auth, ...headers }, body });
+    if (res.status === 412) throw new PreconditionFailedError();
+    return res;
+  }
+
+  function check(status: number, ok: number[] = []) {
+    if ((status < 200 || status >= 300) && !ok.includes(status)) throw new DavError(status);
+  }
+
+  return {
+    async getText(path) {
+      const res = await request("GET", path);
+      if (res.status === 404) return null;
+      check(res.status);
+      return { text: await res.text(), etag: res.headers.get("ETag") };
+    },
+
+    async putText(path, text, etag) {
+      const condition: Record<string, string> =
+        etag === undefined ? {} : etag === null ? { "If-None-Match": "*" } : { "If-Match": etag };
+      const res = await request(
+        "PUT",
+        path,
+        { "Content-Type": "application/json", ...condition },
+        text
+      );
+      check(res.status);
+    },
+
+    async exists(path) {
+      const res = await request("HEAD", path);
+      if (res.status === 404) return false;
+      check(res.status);
+      return true;
+    },
+
+    async upload(localUri, path) {
+      const res = await FileSystem.uploadAsync(urlFor(path), localUri, {
+        httpMethod: "PUT",
+        uploadType: FileSystem.FileSystemUploadType.BINARY_CONTENT,
+        headers: { ...auth, "Content-Type": "application/octet-stream" },
+      });
+      check(res.status);
+    },
+
+    async download(path, localUri) {
+      const res = await FileSystem.downloadAsync(urlFor(path), localUri, { headers: auth });
+      if (res.status < 200 || res.status >= 300) {
+        // the error page was written to the file
+        await FileSystem.deleteAsync(localUri, { idempotent: true });
+        throw new DavError(res.status);
+      }
+    },
+
+    async move(from, to) {
+      const res = await request("MOVE", from, { Destination: urlFor(to), Overwrite: "T" });
+      check(res.status);
+    },
+
+    async remove(path) {
+      const res = await request("DELETE", path);
+      check(res.status, [404]);
+    },
+
+    async ensureFolder(path) {
+      const res = await request("MKCOL", path);
+      // 405: it already exists
+      check(res.status, [405]);
+    },
+  };
+}
@@ -1,7 +1,58 @@
+export type TranscriptSegment = {
+  startMs: number;
+  endMs: number;
+  text: string;
+};
+
+export type Transcript = {
+  // id of the engine that produced it
+  engine: string;
+  createdAt: number;
+  segments: TranscriptSegment[];
+};
+
+export type Bookmark = {
+  id: string;
+  // position in the audio
+  positionMs: number;
+  label?: string;
+  createdAt: number;
+};
+
+export type RecordingFormat = {
+  // file extension, e.g. "m4a" or "wav"
+  container: string;
+  // "aac", "pcm", or whatever the extension implies for imported files
+  encoding: string;
+  sampleRate?: number;
+  channels?: number;
+  // bits per second; only meaningful for compressed audio
+  bitRate?: number;
+  // preset the note was recorded with, if any (see lib/recordingSettings)
+  preset?: string;
+};
+
+// "text" entries have no audio (see lib/entries). Stored notes have a kind from schema 7
+// on; a note without one (e.g. in an older trash or backup) is a recording.
+export type NoteKind = "audio" | "text";
+
 export type Note = {
   id: string;
+  kind?: NoteKind;
   title: string;
+  // audio file; empty for text entries
   uri: string;
   createdAt: number;
+  // milliseconds; 0 for text entries
   duration: number;
+  // written text, in the Markdown subset of lib/richText
+  body?: string;
+  // normalized (0..1) amplitude peaks of the audio, computed once from the file
+  peaks?: number[];
+  // normalized tags (see lib/tags) and at most one notebook
+  tags?: string[];
+  notebook?: string;
+  transcript?: Transcript;
+  bookmarks?: Bookmark[];
+  format?: RecordingFormat;
 };